@@ -1,65 +1,293 @@
-import React, { useState, useCallback, useRef } from 'react';
-import { Scissors, RefreshCw, ChevronRight, User, CheckCircle2, Layers, Sparkles } from 'lucide-react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { Scissors, RefreshCw, ChevronRight, User, CheckCircle2, History, Heart, Sparkles, Download } from 'lucide-react';
 import { ImageUploader } from './components/ImageUploader';
+import { FaceScanOverlay } from './components/FaceScanOverlay';
 import { LoadingSpinner } from './components/LoadingSpinner';
-import { ResultCard } from './components/ResultCard';
-import { CombinationCard } from './components/CombinationCard';
-import { StylePlayground } from './components/StylePlayground';
+import { ProfilePhotoSlot } from './components/ProfilePhotoSlot';
+import { ProfileInsights } from './components/ProfileInsights';
+import { HistoryView } from './components/HistoryView';
+import { SavedLooksView } from './components/SavedLooksView';
+import { SharedLookView } from './components/SharedLookView';
+import { PartialResults } from './components/PartialResults';
+import { LookComparison } from './components/LookComparison';
+import { PreferencesForm } from './components/PreferencesForm';
+import { getModeView } from './components/modeViews';
 import { analyzeFace } from './services/geminiService';
-import { AppState, AnalysisResult, UploadedImage, AnalysisMode } from './types';
+import { clearGenerationJobs } from './services/generationQueue';
+import { createSession, addSessionPreview, getSession, isPreviewOf } from './services/historyStore';
+import { createId } from './services/db';
+import { dataUrlToFile } from './services/imagePreprocessor';
+import { getErrorKind, getErrorMessage } from './services/errors';
+import { loadPreferences, savePreferences } from './services/preferences';
+import { ANALYSIS_MODES, getModeDefinition } from './services/analysisModes';
+import { readShareFragment, clearShareFragment } from './services/shareLink';
+import { importSessionArchive, downloadSessionArchive, SessionArchiveError } from './services/sessionArchive';
+import {
+  AppState,
+  AnalysisResult,
+  AnalysisSession,
+  GeneratedPreview,
+  UploadedImage,
+  AnalysisMode,
+  StyleAIErrorKind,
+  ProfileAngle,
+  ProfileImages,
+  UserPreferences,
+  FaceScan,
+} from './types';
 
-function App() {
-  const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-  const [uploadedImage, setUploadedImage] = useState<UploadedImage | null>(null);
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  const [selectedMode, setSelectedMode] = useState<AnalysisMode>(AnalysisMode.COMPLETE);
-  
-  const resultsRef = useRef<HTMLDivElement>(null);
+// Failures where resending the same photo won't help; offer a new photo instead of a retry
+const PHOTO_ERROR_KINDS = [StyleAIErrorKind.NO_FACE, StyleAIErrorKind.SAFETY_BLOCK];
 
-  const handleImageSelect = useCallback((file: File) => {
+const readUploadedImage = (file: File) =>
+  new Promise<UploadedImage>((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       if (e.target?.result && typeof e.target.result === 'string') {
-        setUploadedImage({
+        resolve({
           file,
           previewUrl: URL.createObjectURL(file),
           base64: e.target.result
         });
-        setAppState(AppState.UPLOADING); // Transition to Mode Selection view
+      } else {
+        reject(new Error("Could not read image file."));
       }
     };
+    reader.onerror = () => reject(reader.error);
     reader.readAsDataURL(file);
+  });
+
+function App() {
+  // Share links open straight into the read-only look
+  const [shareFragment, setShareFragment] = useState<string | null>(() => readShareFragment());
+  const [appState, setAppState] = useState<AppState>(() => shareFragment ? AppState.SHARED_LOOK : AppState.IDLE);
+  const [uploadedImage, setUploadedImage] = useState<UploadedImage | null>(null);
+  const [profileImages, setProfileImages] = useState<ProfileImages>({});
+  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  // What has streamed in so far while in PARTIAL_RESULTS
+  const [partialResult, setPartialResult] = useState<Partial<AnalysisResult> | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [errorKind, setErrorKind] = useState<StyleAIErrorKind | null>(null);
+  const [selectedMode, setSelectedMode] = useState<AnalysisMode>(AnalysisMode.COMPLETE);
+  const [preferences, setPreferences] = useState<UserPreferences>(() => loadPreferences());
+  // Persisted history entry for the results currently on screen
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionPreviews, setSessionPreviews] = useState<GeneratedPreview[]>([]);
+  // Where "Back" from the History / Saved Looks views returns to
+  const [returnState, setReturnState] = useState<AppState>(AppState.IDLE);
+  
+  const resultsRef = useRef<HTMLDivElement>(null);
+  // Bumped whenever the screen moves on (new analysis, reset, opened session), so a late result is dropped
+  const analysisRunRef = useRef(0);
+  // Pending write of the current session; previews are only added once it has landed
+  const sessionWriteRef = useRef<Promise<void>>(Promise.resolve());
+  // Generation queue keys for the results on screen are prefixed with this
+  const sessionKey = sessionId ?? 'current';
+
+  // Leaving a session drops its queued previews; reopening it restores the saved ones from history
+  useEffect(() => () => clearGenerationJobs(`${sessionKey}:`), [sessionKey]);
+
+  // A link pasted into an already open tab only changes the hash
+  useEffect(() => {
+    const onHashChange = () => {
+      const fragment = readShareFragment();
+      if (!fragment) return;
+      setShareFragment(fragment);
+      setAppState(AppState.SHARED_LOOK);
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const handleImageSelect = useCallback(async (file: File, face?: FaceScan) => {
+    try {
+      setUploadedImage({ ...await readUploadedImage(file), face });
+      setAppState(AppState.UPLOADING); // Transition to Mode Selection view
+    } catch (err) {
+      console.error(err);
+    }
+  }, []);
+
+  const handleProfileSelect = useCallback(async (angle: ProfileAngle, file: File) => {
+    try {
+      const image = await readUploadedImage(file);
+      setProfileImages(prev => ({ ...prev, [angle]: image }));
+    } catch (err) {
+      console.error(err);
+    }
   }, []);
 
-  const handleConfirmAnalysis = useCallback(async () => {
+  const handleProfileRemove = useCallback((angle: ProfileAngle) => {
+    setProfileImages(prev => {
+      const next = { ...prev };
+      delete next[angle];
+      return next;
+    });
+  }, []);
+
+  // Analysis screens switch to the outcome; History or Saved Looks stay open and "Back" leads to it
+  const showAnalysisOutcome = (next: AppState.RESULTS | AppState.ERROR) => {
+    setAppState(state => state === AppState.ANALYZING || state === AppState.PARTIAL_RESULTS ? next : state);
+    setReturnState(state => state === AppState.ANALYZING || state === AppState.PARTIAL_RESULTS ? next : state);
+  };
+
+  // `regenerate` skips the cached analysis for this photo, mode and profile
+  const handleConfirmAnalysis = useCallback(async (regenerate = false) => {
     if (!uploadedImage) return;
 
+    const run = ++analysisRunRef.current;
     setAppState(AppState.ANALYZING);
+    setPartialResult(null);
     setErrorMsg(null);
+    setErrorKind(null);
+
+    // Leave the spinner as soon as there is a face shape to show
+    const handlePartialResult = (partial: Partial<AnalysisResult>) => {
+      if (run !== analysisRunRef.current || !partial.faceShape) return;
+      setPartialResult(partial);
+      // Only from the analysis screens; History or Saved Looks stay open
+      setAppState(state => state === AppState.ANALYZING ? AppState.PARTIAL_RESULTS : state);
+      setReturnState(state => state === AppState.ANALYZING ? AppState.PARTIAL_RESULTS : state);
+    };
 
     try {
-      const result = await analyzeFace(uploadedImage.base64, selectedMode);
+      const result = await analyzeFace(uploadedImage.base64, selectedMode, {
+        profileImages: {
+          [ProfileAngle.LEFT_PROFILE]: profileImages[ProfileAngle.LEFT_PROFILE]?.base64,
+          [ProfileAngle.RIGHT_PROFILE]: profileImages[ProfileAngle.RIGHT_PROFILE]?.base64,
+        },
+        preferences,
+        regenerate,
+        onPartialResult: handlePartialResult,
+      });
+      if (run !== analysisRunRef.current) return;
       setAnalysisResult(result);
-      setAppState(AppState.RESULTS);
+      setPartialResult(null);
+      setSessionPreviews([]);
+      showAnalysisOutcome(AppState.RESULTS);
+      // Saving history must never block showing results
+      const newSessionId = createId();
+      setSessionId(newSessionId);
+      sessionWriteRef.current = createSession({
+        id: newSessionId,
+        image: uploadedImage.base64,
+        mode: selectedMode,
+        result,
+        profileImages: {
+          [ProfileAngle.LEFT_PROFILE]: profileImages[ProfileAngle.LEFT_PROFILE]?.base64,
+          [ProfileAngle.RIGHT_PROFILE]: profileImages[ProfileAngle.RIGHT_PROFILE]?.base64,
+        },
+        rerun: regenerate,
+      }).then(
+        () => undefined,
+        err => console.error('Error saving session', err),
+      );
       setTimeout(() => {
         resultsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
       }, 100);
     } catch (err) {
       console.error(err);
-      setErrorMsg("Something went wrong while analyzing your image. Please try again.");
-      setAppState(AppState.ERROR);
+      if (run !== analysisRunRef.current) return;
+      setPartialResult(null);
+      setErrorKind(getErrorKind(err));
+      setErrorMsg(getErrorMessage(err, 'analysis'));
+      showAnalysisOutcome(AppState.ERROR);
     }
-  }, [uploadedImage, selectedMode]);
+  }, [uploadedImage, profileImages, selectedMode, preferences]);
+
+  // Preferences outlive the session, so persist on every change
+  const handlePreferencesChange = useCallback((next: UserPreferences) => {
+    setPreferences(next);
+    savePreferences(next);
+  }, []);
 
   const handleReset = useCallback(() => {
+    analysisRunRef.current++;
+    clearShareFragment();
+    setShareFragment(null);
     setAppState(AppState.IDLE);
     setUploadedImage(null);
+    setProfileImages({});
     setAnalysisResult(null);
+    setPartialResult(null);
     setErrorMsg(null);
+    setErrorKind(null);
     setSelectedMode(AnalysisMode.COMPLETE);
+    setSessionId(null);
+    setSessionPreviews([]);
   }, []);
 
+  const handlePreviewGenerated = useCallback((key: string, label: string, imageUrl: string) => {
+    // Kept in state too, so cards re-seed their preview after visiting History or Saved Looks
+    setSessionPreviews(prev => [
+      ...prev.filter(preview => !isPreviewOf(preview, key, label)),
+      { id: createId(), key, label, imageUrl, createdAt: Date.now() },
+    ]);
+    if (!sessionId) return;
+    // A fast (e.g. cached) preview can finish before the session itself is stored
+    sessionWriteRef.current
+      .then(() => addSessionPreview(sessionId, key, label, imageUrl))
+      .then(saved => {
+        if (!saved) console.warn(`Preview "${label}" not saved: session ${sessionId} isn't in history`);
+      })
+      .catch(err => console.error('Error saving preview', err));
+  }, [sessionId]);
+
+  const handleOpenSecondaryView = useCallback((view: AppState.HISTORY | AppState.SAVED_LOOKS) => {
+    if (appState === view) return;
+    if (appState !== AppState.HISTORY && appState !== AppState.SAVED_LOOKS) {
+      // A running analysis keeps going; "Back" returns to it, or to its outcome once it has finished
+      setReturnState(appState);
+    }
+    setAppState(view);
+  }, [appState]);
+
+  // Rejects when the stored photos can't be decoded; callers decide how to report it
+  const openSession = useCallback(async (session: AnalysisSession) => {
+    analysisRunRef.current++;
+    const front = await readUploadedImage(await dataUrlToFile(session.image, 'session-photo'));
+    const profiles: ProfileImages = {};
+    for (const angle of Object.values(ProfileAngle)) {
+      const base64 = session.profileImages?.[angle];
+      if (base64) profiles[angle] = await readUploadedImage(await dataUrlToFile(base64, `session-${angle}`));
+    }
+    setUploadedImage(front);
+    setProfileImages(profiles);
+    setAnalysisResult(session.result);
+    setSelectedMode(session.mode);
+    setSessionId(session.id);
+    setSessionPreviews(session.previews);
+    setErrorMsg(null);
+    setErrorKind(null);
+    setAppState(AppState.RESULTS);
+  }, []);
+
+  const handleOpenSession = useCallback((session: AnalysisSession) => {
+    openSession(session).catch(err => console.error('Error opening session', err));
+  }, [openSession]);
+
+  // Errors propagate so the uploader can show them
+  const handleImportSession = useCallback(async (file: File) => {
+    const session = await importSessionArchive(file);
+    try {
+      await openSession(session);
+    } catch (err) {
+      console.error('Error opening imported session', err);
+      throw new SessionArchiveError(`The session was added to your History as "${session.name}", but its photo couldn't be opened.`);
+    }
+  }, [openSession]);
+
+  const handleExportSession = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      // Read back from history so previews saved since opening are included
+      const session = await getSession(sessionId);
+      if (session) await downloadSessionArchive(session);
+    } catch (err) {
+      console.error('Error exporting session', err);
+    }
+  }, [sessionId]);
+
   // Helper to format text with **bold** markers
   const formatText = (text: string) => {
     const parts = text.split(/(\*\*[\s\S]*?\*\*)/g);
@@ -71,10 +299,9 @@ function App() {
     });
   };
 
-  // Determine title for the curated combinations section
-  let combinationTitle = "Curated Look Combinations";
-  if (selectedMode === AnalysisMode.HAIRSTYLE_ONLY) combinationTitle = "Curated Hairstyle Looks";
-  if (selectedMode === AnalysisMode.FACIAL_HAIR_ONLY) combinationTitle = "Curated Beard & Stubble Looks";
+  const profileCount = Object.keys(profileImages).length;
+
+  const ModeResults = getModeView(selectedMode).Results;
 
   return (
     <div className="min-h-screen flex flex-col bg-[#121212] text-text">
@@ -88,6 +315,13 @@ function App() {
         .scanning-line {
           animation: scan 2s linear infinite;
         }
+        @keyframes landmark-draw {
+          from { opacity: 0; }
+          to { opacity: 1; }
+        }
+        .landmark-draw {
+          animation: landmark-draw 0.6s ease-out both;
+        }
       `}</style>
       {/* Header */}
       <header className="border-b border-gray-800 bg-secondary/80 backdrop-blur-md sticky top-0 z-50">
@@ -98,12 +332,28 @@ function App() {
             </div>
             <span className="text-2xl font-black tracking-tighter text-white">Sharp<span className="text-primary">.AI</span></span>
           </div>
-          <button 
-            onClick={handleReset}
-            className={`text-sm font-medium hover:text-primary transition-colors ${appState === AppState.IDLE ? 'invisible' : 'visible'}`}
-          >
-            New Analysis
-          </button>
+          <div className="flex items-center gap-6">
+            <button
+              onClick={() => handleOpenSecondaryView(AppState.SAVED_LOOKS)}
+              className={`text-sm font-medium transition-colors flex items-center gap-1 ${appState === AppState.SAVED_LOOKS ? 'text-primary' : 'hover:text-primary'}`}
+            >
+              <Heart className="w-4 h-4" />
+              Saved
+            </button>
+            <button
+              onClick={() => handleOpenSecondaryView(AppState.HISTORY)}
+              className={`text-sm font-medium transition-colors flex items-center gap-1 ${appState === AppState.HISTORY ? 'text-primary' : 'hover:text-primary'}`}
+            >
+              <History className="w-4 h-4" />
+              History
+            </button>
+            <button 
+              onClick={handleReset}
+              className={`text-sm font-medium hover:text-primary transition-colors ${appState === AppState.IDLE ? 'invisible' : 'visible'}`}
+            >
+              New Analysis
+            </button>
+          </div>
         </div>
       </header>
 
@@ -114,10 +364,29 @@ function App() {
         {appState === AppState.ERROR && (
           <div className="max-w-2xl mx-auto mb-8 p-4 bg-red-900/20 border border-red-500/50 rounded-lg text-red-200 flex items-center justify-between">
             <span>{errorMsg}</span>
-            <button onClick={handleConfirmAnalysis} className="text-sm underline hover:text-white">Try Again</button>
+            {errorKind && PHOTO_ERROR_KINDS.includes(errorKind) ? (
+              <button onClick={handleReset} className="text-sm underline hover:text-white whitespace-nowrap ml-4">Change Photo</button>
+            ) : (
+              <button onClick={() => handleConfirmAnalysis()} className="text-sm underline hover:text-white whitespace-nowrap ml-4">Try Again</button>
+            )}
           </div>
         )}
 
+        {/* History */}
+        {appState === AppState.HISTORY && (
+          <HistoryView onOpen={handleOpenSession} onBack={() => setAppState(returnState)} />
+        )}
+
+        {/* Saved Looks */}
+        {appState === AppState.SAVED_LOOKS && (
+          <SavedLooksView onBack={() => setAppState(returnState)} />
+        )}
+
+        {/* Shared Look */}
+        {appState === AppState.SHARED_LOOK && shareFragment && (
+          <SharedLookView fragment={shareFragment} onClose={handleReset} />
+        )}
+
         {/* Hero / Upload Section */}
         {appState === AppState.IDLE && (
           <div className="flex flex-col items-center justify-center min-h-[60vh] text-center space-y-8 animate-fade-in">
@@ -132,7 +401,7 @@ function App() {
             </div>
             
             <div className="w-full max-w-xl">
-              <ImageUploader onImageSelect={handleImageSelect} />
+              <ImageUploader onImageSelect={handleImageSelect} onSessionImport={handleImportSession} />
             </div>
             
             <div className="flex flex-wrap gap-8 justify-center mt-12 text-gray-500 grayscale opacity-60">
@@ -163,11 +432,9 @@ function App() {
                   <div className="absolute left-0 right-0 h-1 bg-primary/80 shadow-[0_0_15px_3px_rgba(207,181,59,0.6)] scanning-line"></div>
                   {/* Gradient trail following the line */}
                   <div className="absolute left-0 right-0 h-24 bg-gradient-to-t from-primary/20 to-transparent scanning-line" style={{ transform: 'translateY(-100%)' }}></div>
-                  
-                  {/* Facial landmarks mock UI */}
-                  <div className="absolute top-1/3 left-1/4 w-4 h-4 border border-primary/60 rounded-full animate-ping"></div>
-                  <div className="absolute top-1/3 right-1/4 w-4 h-4 border border-primary/60 rounded-full animate-ping delay-100"></div>
-                  <div className="absolute bottom-1/3 left-1/2 w-4 h-4 border border-primary/60 rounded-full animate-ping delay-300"></div>
+
+                  {/* Landmarks and measurements from the on-device face scan */}
+                  {uploadedImage.face && <FaceScanOverlay scan={uploadedImage.face} />}
                 </div>
               )}
 
@@ -175,7 +442,9 @@ function App() {
               <div className="absolute bottom-6 left-6 right-6">
                 <p className="text-white font-medium text-lg">Your Photo</p>
                 <p className="text-gray-400 text-sm">
-                  {appState === AppState.ANALYZING ? "Scanning features..." : "Ready for analysis"}
+                  {appState === AppState.ANALYZING
+                    ? `Scanning features${profileCount > 0 ? ` across ${profileCount + 1} angles` : ''}...`
+                    : "Ready for analysis"}
                 </p>
               </div>
             </div>
@@ -190,43 +459,53 @@ function App() {
                   </div>
                   
                   <div className="grid gap-3">
-                    <button 
-                      onClick={() => setSelectedMode(AnalysisMode.HAIRSTYLE_ONLY)}
-                      className={`p-4 rounded-xl border flex items-center justify-between transition-all ${selectedMode === AnalysisMode.HAIRSTYLE_ONLY ? 'bg-primary/20 border-primary' : 'bg-surface border-gray-700 hover:border-gray-500'}`}
-                    >
-                       <div className="flex items-center gap-3">
-                         <Scissors className={selectedMode === AnalysisMode.HAIRSTYLE_ONLY ? "text-primary" : "text-gray-500"} />
-                         <span className={selectedMode === AnalysisMode.HAIRSTYLE_ONLY ? "text-white font-bold" : "text-gray-300"}>Hairstyle Only</span>
-                       </div>
-                       {selectedMode === AnalysisMode.HAIRSTYLE_ONLY && <div className="w-3 h-3 bg-primary rounded-full"></div>}
-                    </button>
-
-                    <button 
-                      onClick={() => setSelectedMode(AnalysisMode.FACIAL_HAIR_ONLY)}
-                      className={`p-4 rounded-xl border flex items-center justify-between transition-all ${selectedMode === AnalysisMode.FACIAL_HAIR_ONLY ? 'bg-primary/20 border-primary' : 'bg-surface border-gray-700 hover:border-gray-500'}`}
-                    >
-                       <div className="flex items-center gap-3">
-                         <User className={selectedMode === AnalysisMode.FACIAL_HAIR_ONLY ? "text-primary" : "text-gray-500"} />
-                         <span className={selectedMode === AnalysisMode.FACIAL_HAIR_ONLY ? "text-white font-bold" : "text-gray-300"}>Facial Hair Only</span>
-                       </div>
-                       {selectedMode === AnalysisMode.FACIAL_HAIR_ONLY && <div className="w-3 h-3 bg-primary rounded-full"></div>}
-                    </button>
+                    {ANALYSIS_MODES.map(({ mode, label }) => {
+                      const Icon = getModeView(mode).icon;
+                      const isSelected = selectedMode === mode;
+                      return (
+                        <button 
+                          key={mode}
+                          onClick={() => setSelectedMode(mode)}
+                          className={`p-4 rounded-xl border flex items-center justify-between transition-all ${isSelected ? 'bg-primary/20 border-primary' : 'bg-surface border-gray-700 hover:border-gray-500'}`}
+                        >
+                           <div className="flex items-center gap-3">
+                             <Icon className={isSelected ? "text-primary" : "text-gray-500"} />
+                             <span className={isSelected ? "text-white font-bold" : "text-gray-300"}>{label}</span>
+                           </div>
+                           {isSelected && <div className="w-3 h-3 bg-primary rounded-full"></div>}
+                        </button>
+                      );
+                    })}
+                  </div>
 
-                    <button 
-                      onClick={() => setSelectedMode(AnalysisMode.COMPLETE)}
-                      className={`p-4 rounded-xl border flex items-center justify-between transition-all ${selectedMode === AnalysisMode.COMPLETE ? 'bg-primary/20 border-primary' : 'bg-surface border-gray-700 hover:border-gray-500'}`}
-                    >
-                       <div className="flex items-center gap-3">
-                         <Sparkles className={selectedMode === AnalysisMode.COMPLETE ? "text-primary" : "text-gray-500"} />
-                         <span className={selectedMode === AnalysisMode.COMPLETE ? "text-white font-bold" : "text-gray-300"}>Complete Makeover</span>
-                       </div>
-                       {selectedMode === AnalysisMode.COMPLETE && <div className="w-3 h-3 bg-primary rounded-full"></div>}
-                    </button>
+                  <div className="space-y-3">
+                    <div>
+                      <h3 className="text-sm font-bold text-gray-300 uppercase tracking-wider">Add Profile Shots <span className="text-gray-500 normal-case font-normal">(optional)</span></h3>
+                      <p className="text-xs text-gray-500 mt-1">Side views show your crown, neckline and jaw so fades and beard lines can be tailored.</p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4 max-w-xs">
+                      <ProfilePhotoSlot
+                        label="Left Profile"
+                        facing="left"
+                        previewUrl={profileImages[ProfileAngle.LEFT_PROFILE]?.previewUrl}
+                        onSelect={(file) => handleProfileSelect(ProfileAngle.LEFT_PROFILE, file)}
+                        onRemove={() => handleProfileRemove(ProfileAngle.LEFT_PROFILE)}
+                      />
+                      <ProfilePhotoSlot
+                        label="Right Profile"
+                        facing="right"
+                        previewUrl={profileImages[ProfileAngle.RIGHT_PROFILE]?.previewUrl}
+                        onSelect={(file) => handleProfileSelect(ProfileAngle.RIGHT_PROFILE, file)}
+                        onRemove={() => handleProfileRemove(ProfileAngle.RIGHT_PROFILE)}
+                      />
+                    </div>
                   </div>
 
+                  <PreferencesForm preferences={preferences} onChange={handlePreferencesChange} />
+
                   <div className="pt-4 flex gap-4">
                     <button 
-                      onClick={handleConfirmAnalysis}
+                      onClick={() => handleConfirmAnalysis()}
                       className="flex-1 bg-primary hover:bg-yellow-500 text-secondary font-bold py-4 px-6 rounded-xl transition-all transform hover:scale-105 flex items-center justify-center gap-2"
                     >
                       Start Analysis
@@ -246,9 +525,7 @@ function App() {
                    <div className="space-y-2 text-center max-w-xs">
                      <p className="text-white font-medium">Analyzing facial geometry...</p>
                      <p className="text-xs text-gray-500">
-                        {selectedMode === AnalysisMode.COMPLETE ? "Matching hairstyles and beard types." : 
-                         selectedMode === AnalysisMode.HAIRSTYLE_ONLY ? "Scanning hairline and face shape." : 
-                         "Analyzing jawline and facial density."}
+                        {getModeDefinition(selectedMode).loadingHint}
                      </p>
                    </div>
                 </div>
@@ -258,6 +535,10 @@ function App() {
         )}
 
         {/* Results View */}
+        {appState === AppState.PARTIAL_RESULTS && partialResult && (
+          <PartialResults partial={partialResult} mode={selectedMode} />
+        )}
+
         {appState === AppState.RESULTS && analysisResult && (
           <div ref={resultsRef} className="space-y-16 animate-fade-in pb-16">
             
@@ -280,75 +561,23 @@ function App() {
                </div>
             </div>
 
-            {/* STYLE PLAYGROUND (New Feature) */}
-            <StylePlayground 
-              hairstyles={analysisResult.hairstyles} 
-              facialHair={analysisResult.facialHair} 
-              originalImageBase64={uploadedImage!.base64} 
-            />
-
-            {/* Curated Combinations Section (All Modes) */}
-            {analysisResult.combinations && analysisResult.combinations.length > 0 && (
-              <div className="space-y-8">
-                <div className="flex flex-col items-center text-center mb-8">
-                    <div className="p-3 bg-primary/10 rounded-full text-primary mb-4">
-                      <Layers className="w-8 h-8" />
-                    </div>
-                    <h3 className="text-3xl font-bold text-white">{combinationTitle}</h3>
-                    <p className="text-gray-400 mt-2 max-w-xl">
-                      Our AI has selected specific styles that work perfectly for your face shape. Click "Visualize" to see them on you.
-                    </p>
-                </div>
-                
-                <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {analysisResult.combinations.map((combo, idx) => (
-                      <CombinationCard 
-                        key={idx} 
-                        combination={combo} 
-                        originalImageBase64={uploadedImage!.base64} 
-                      />
-                  ))}
-                </div>
-              </div>
+            {/* Side-view observations (multi-angle sessions only) */}
+            {analysisResult.angleObservations && analysisResult.angleObservations.length > 0 && (
+              <ProfileInsights observations={analysisResult.angleObservations} />
             )}
 
-            {/* Individual Recommendations Grid */}
-            <div className="grid lg:grid-cols-2 gap-12 border-t border-gray-800 pt-12">
-              
-              {/* Hairstyles (Conditional Render) */}
-              {analysisResult.hairstyles.length > 0 && (
-                <div className={`space-y-6 ${analysisResult.facialHair.length === 0 ? 'lg:col-span-2' : ''}`}>
-                  <div className="flex items-center gap-3 mb-4">
-                    <div className="p-2 bg-primary/10 rounded-lg text-primary">
-                      <Scissors className="w-6 h-6" />
-                    </div>
-                    <h3 className="text-2xl font-bold text-white">Recommended Hairstyles</h3>
-                  </div>
-                  <div className={`grid gap-6 ${analysisResult.facialHair.length === 0 ? 'md:grid-cols-2' : ''}`}>
-                    {analysisResult.hairstyles.map((style, idx) => (
-                      <ResultCard key={idx} recommendation={style} type="hair" />
-                    ))}
-                  </div>
-                </div>
-              )}
+            {/* Mode-specific recommendations (see components/modeViews) */}
+            <ModeResults
+              analysis={analysisResult}
+              mode={selectedMode}
+              originalImageBase64={uploadedImage!.base64}
+              sessionKey={sessionKey}
+              previews={sessionPreviews}
+              onPreviewGenerated={handlePreviewGenerated}
+            />
 
-              {/* Beards / Facial Hair (Conditional Render) */}
-              {analysisResult.facialHair.length > 0 && (
-                <div className={`space-y-6 ${analysisResult.hairstyles.length === 0 ? 'lg:col-span-2' : ''}`}>
-                  <div className="flex items-center gap-3 mb-4">
-                    <div className="p-2 bg-primary/10 rounded-lg text-primary">
-                      <User className="w-6 h-6" />
-                    </div>
-                    <h3 className="text-2xl font-bold text-white">Facial Hair Options</h3>
-                  </div>
-                  <div className={`grid gap-6 ${analysisResult.hairstyles.length === 0 ? 'md:grid-cols-2' : ''}`}>
-                    {analysisResult.facialHair.map((style, idx) => (
-                      <ResultCard key={idx} recommendation={style} type="beard" />
-                    ))}
-                  </div>
-                </div>
-              )}
-            </div>
+            {/* Looks from different cards side by side, once there are at least two */}
+            <LookComparison originalImage={uploadedImage!.base64} previews={sessionPreviews} />
 
             {/* Grooming Tips */}
             <div className="bg-gradient-to-br from-surface to-secondary border border-gray-700 rounded-2xl p-8">
@@ -366,7 +595,7 @@ function App() {
               </div>
             </div>
 
-            <div className="flex justify-center pt-8">
+            <div className="flex flex-col sm:flex-row items-center justify-center gap-4 pt-8">
               <button 
                 onClick={handleReset}
                 className="flex items-center gap-2 px-8 py-4 bg-gray-800 hover:bg-gray-700 text-white rounded-full transition-all"
@@ -374,6 +603,26 @@ function App() {
                 <RefreshCw className="w-5 h-5" />
                 Start New Analysis
               </button>
+              {uploadedImage && (
+                <button
+                  onClick={() => handleConfirmAnalysis(true)}
+                  className="flex items-center gap-2 px-6 py-4 border border-gray-700 hover:border-gray-500 text-gray-300 rounded-full transition-all text-sm"
+                  title="Ask the AI again instead of reusing the cached analysis"
+                >
+                  <Sparkles className="w-4 h-4" />
+                  Re-run Analysis
+                </button>
+              )}
+              {sessionId && (
+                <button
+                  onClick={handleExportSession}
+                  className="flex items-center gap-2 px-6 py-4 border border-gray-700 hover:border-gray-500 text-gray-300 rounded-full transition-all text-sm"
+                  title="Download the photo, analysis and previews as one file"
+                >
+                  <Download className="w-4 h-4" />
+                  Export Session
+                </button>
+              )}
             </div>
             
           </div>
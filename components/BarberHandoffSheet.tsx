@@ -0,0 +1,163 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Printer, X, Scissors } from 'lucide-react';
+import { CuttingSpec, StyleCombination } from '../types';
+import { CuttingGuideline, getHairGuidance, getBeardGuidance } from '../services/cuttingGuidance';
+
+interface BarberHandoffSheetProps {
+  combination: StyleCombination;
+  beforeImage?: string;
+  afterImage?: string | null;
+  // Structured specs from the analysis take precedence over the generic style guides
+  hairSpec?: CuttingSpec;
+  beardSpec?: CuttingSpec;
+  faceShape?: string;
+  faceAnalysis?: string;
+  groomingTips?: string[];
+  onClose: () => void;
+}
+
+// Tips come back with **bold** markers; keep the emphasis on paper
+const renderTip = (tip: string) =>
+  tip.split(/(\*\*[\s\S]*?\*\*)/g).map((part, index) =>
+    part.startsWith('**') && part.endsWith('**')
+      ? <strong key={index}>{part.slice(2, -2)}</strong>
+      : <span key={index}>{part}</span>
+  );
+
+const GuidanceTable: React.FC<{ title: string; styleName: string; guide: CuttingGuideline[] }> = ({ title, styleName, guide }) => (
+  <div className="break-inside-avoid">
+    <h3 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">{title}</h3>
+    <p className="text-lg font-bold text-gray-900 mb-3">{styleName}</p>
+    {guide.length > 0 ? (
+      <table className="w-full text-sm border-collapse">
+        <tbody>
+          {guide.map(row => (
+            <tr key={row.label} className="border-t border-gray-200">
+              <th className="text-left font-semibold text-gray-700 py-1.5 pr-3 align-top whitespace-nowrap">{row.label}</th>
+              <td className="text-gray-900 py-1.5">{row.value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    ) : (
+      <p className="text-sm text-gray-600 italic">No standard guide for this style — use the reference photo and agree lengths before cutting.</p>
+    )}
+  </div>
+);
+
+export const BarberHandoffSheet: React.FC<BarberHandoffSheetProps> = ({
+  combination,
+  beforeImage,
+  afterImage,
+  hairSpec,
+  beardSpec,
+  faceShape,
+  faceAnalysis,
+  groomingTips = [],
+  onClose,
+}) => {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const hairGuide = combination.hairstyle ? getHairGuidance(combination.hairstyle, hairSpec) : [];
+  const beardGuide = combination.facialHair ? getBeardGuidance(combination.facialHair, beardSpec) : [];
+
+  // Rendered at the body level so the print stylesheet can hide the rest of the app
+  return createPortal(
+    <div className="print-sheet fixed inset-0 z-50 bg-black/80 backdrop-blur-sm overflow-y-auto p-4 md:p-8 print:static print:bg-white print:p-0 print:overflow-visible">
+      <div className="max-w-3xl mx-auto flex items-center justify-between mb-4 print:hidden">
+        <h2 className="text-white font-bold flex items-center gap-2">
+          <Scissors className="w-5 h-5 text-primary" />
+          Barber Handoff Sheet
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => window.print()}
+            className="py-2 px-4 bg-primary text-secondary rounded-lg text-sm font-bold hover:bg-yellow-500 transition-colors flex items-center gap-2"
+          >
+            <Printer className="w-4 h-4" />
+            Print / Save as PDF
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 bg-secondary border border-gray-600 text-gray-400 rounded-lg hover:text-white hover:border-gray-500 transition-colors"
+            aria-label="Close barber sheet"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <article className="max-w-3xl mx-auto bg-white text-gray-900 rounded-xl shadow-2xl p-8 md:p-10 space-y-6 print:max-w-none print:rounded-none print:shadow-none print:p-0">
+        <header className="flex items-end justify-between border-b-2 border-gray-900 pb-3">
+          <div>
+            <p className="text-xs font-bold uppercase tracking-[0.2em] text-gray-500">Sharp.AI · Take this to your barber</p>
+            <h1 className="text-3xl font-bold tracking-tight">{combination.name}</h1>
+          </div>
+          <p className="text-xs text-gray-500">{new Date().toLocaleDateString()}</p>
+        </header>
+
+        <div className="grid grid-cols-2 gap-4">
+          {[
+            { label: 'Before', src: beforeImage },
+            { label: 'After', src: afterImage },
+          ].map(({ label, src }) => (
+            <figure key={label} className="break-inside-avoid">
+              {src ? (
+                <img src={src} alt={label} className="w-full aspect-square object-cover rounded-lg border border-gray-300" />
+              ) : (
+                <div className="w-full aspect-square rounded-lg border border-dashed border-gray-300 flex items-center justify-center text-center text-xs text-gray-400 p-4">
+                  {label === 'After' ? 'Visualize this look to include a reference preview.' : 'Original photo not available.'}
+                </div>
+              )}
+              <figcaption className="text-xs font-bold uppercase tracking-wider text-gray-500 mt-1">{label}</figcaption>
+            </figure>
+          ))}
+        </div>
+
+        <section className={`grid gap-6 ${combination.hairstyle && combination.facialHair ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {combination.hairstyle && <GuidanceTable title="Haircut" styleName={combination.hairstyle} guide={hairGuide} />}
+          {combination.facialHair && <GuidanceTable title="Facial Hair" styleName={combination.facialHair} guide={beardGuide} />}
+        </section>
+
+        {(faceShape || faceAnalysis || combination.reasoning) && (
+          <section className="break-inside-avoid">
+            <h3 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-2">
+              Why it suits{faceShape ? ` a ${faceShape.toLowerCase()} face` : ' this face'}
+            </h3>
+            {faceAnalysis && <p className="text-sm text-gray-800 leading-relaxed mb-2">{faceAnalysis}</p>}
+            {combination.reasoning && <p className="text-sm text-gray-800 leading-relaxed">{combination.reasoning}</p>}
+          </section>
+        )}
+
+        {groomingTips.length > 0 && (
+          <section className="break-inside-avoid">
+            <h3 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-2">Grooming Tips</h3>
+            <ol className="list-decimal pl-5 space-y-1 text-sm text-gray-800">
+              {groomingTips.map((tip, idx) => <li key={idx}>{renderTip(tip)}</li>)}
+            </ol>
+          </section>
+        )}
+
+        <section className="break-inside-avoid">
+          <h3 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-2">Barber Notes</h3>
+          <div className="space-y-6 pt-2">
+            <div className="border-b border-gray-300" />
+            <div className="border-b border-gray-300" />
+          </div>
+        </section>
+
+        <footer className="text-[10px] text-gray-500 border-t border-gray-200 pt-3">
+          Guard sizes: #0.5 = 1.5mm · #1 = 3mm · #2 = 6mm · #3 = 10mm · #4 = 13mm. Lengths are a starting point — confirm with your barber before cutting.
+        </footer>
+      </article>
+    </div>,
+    document.body
+  );
+};
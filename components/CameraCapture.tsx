@@ -0,0 +1,302 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Camera, SwitchCamera, X, Loader2, AlertCircle } from 'lucide-react';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+type FacingMode = 'user' | 'environment';
+
+const COUNTDOWN_SECONDS = 3;
+const HINT_INTERVAL_MS = 500;
+
+// Small sample grid used for the live lighting / framing hints
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 48;
+
+interface FrameStats {
+  brightness: number;
+  // Left-vs-right brightness difference, 0-255
+  imbalance: number;
+  // Share of pixels that look like skin and where their centre of mass sits (0-1 coordinates)
+  skinCoverage: number;
+  skinCenterX: number;
+  skinCenterY: number;
+}
+
+// Rough YCbCr skin classifier; good enough to tell whether a face sits inside the oval
+const isSkinPixel = (r: number, g: number, b: number) => {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+const analyzeFrame = ({ data, width, height }: ImageData): FrameStats => {
+  let total = 0;
+  let left = 0;
+  let right = 0;
+  let skin = 0;
+  let skinX = 0;
+  let skinY = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      total += luma;
+      if (x < width / 2) left += luma; else right += luma;
+      if (isSkinPixel(data[i], data[i + 1], data[i + 2])) {
+        skin++;
+        skinX += x;
+        skinY += y;
+      }
+    }
+  }
+
+  const pixels = width * height;
+  return {
+    brightness: total / pixels,
+    imbalance: Math.abs(left - right) / (pixels / 2),
+    skinCoverage: skin / pixels,
+    skinCenterX: skin ? skinX / skin / width : 0.5,
+    skinCenterY: skin ? skinY / skin / height : 0.5,
+  };
+};
+
+const getHint = (stats: FrameStats, mirrored: boolean): string | null => {
+  if (stats.brightness < 60) return "Too dark - face a window or light source";
+  if (stats.brightness > 210) return "Too bright - step out of direct light";
+  if (stats.imbalance > 45) return "Uneven lighting - turn toward the light";
+  if (stats.skinCoverage < 0.04) return "Position your face inside the oval";
+  if (stats.skinCoverage > 0.45) return "Move the camera a little further away";
+
+  // Hints are phrased from the user's point of view, so account for the mirrored preview
+  const offsetX = mirrored ? 0.5 - stats.skinCenterX : stats.skinCenterX - 0.5;
+  if (offsetX > 0.12) return "Move a little to the left";
+  if (offsetX < -0.12) return "Move a little to the right";
+  if (stats.skinCenterY < 0.3) return "Lower the camera slightly";
+  if (stats.skinCenterY > 0.65) return "Raise the camera slightly";
+  return null;
+};
+
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const [facingMode, setFacingMode] = useState<FacingMode>('user');
+  const [hasMultipleCameras, setHasMultipleCameras] = useState(false);
+  const [isStarting, setIsStarting] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hint, setHint] = useState<string | null>(null);
+  const [countdown, setCountdown] = useState<number | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const sampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const mirrored = facingMode === 'user';
+
+  const stopStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  // (Re)start the stream whenever the requested camera changes
+  useEffect(() => {
+    let cancelled = false;
+
+    const start = async () => {
+      setIsStarting(true);
+      setError(null);
+      stopStream();
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode, width: { ideal: 1280 }, height: { ideal: 960 } },
+          audio: false,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) {
+          setHasMultipleCameras(devices.filter((device) => device.kind === 'videoinput').length > 1);
+        }
+      } catch (err) {
+        console.error('Camera error', err);
+        if (!cancelled) {
+          const denied = err instanceof DOMException && err.name === 'NotAllowedError';
+          setError(denied
+            ? "Camera access was blocked. Allow camera permissions in your browser settings."
+            : "We couldn't start the camera on this device.");
+        }
+      } finally {
+        if (!cancelled) setIsStarting(false);
+      }
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+    };
+  }, [facingMode, stopStream]);
+
+  // Release the camera when the modal closes
+  useEffect(() => stopStream, [stopStream]);
+
+  // Live lighting / centering hints
+  useEffect(() => {
+    if (isStarting || error) return;
+
+    const interval = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2) return;
+      if (!sampleCanvasRef.current) {
+        sampleCanvasRef.current = document.createElement('canvas');
+        sampleCanvasRef.current.width = SAMPLE_WIDTH;
+        sampleCanvasRef.current.height = SAMPLE_HEIGHT;
+      }
+      const ctx = sampleCanvasRef.current.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return;
+      ctx.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+      setHint(getHint(analyzeFrame(ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT)), mirrored));
+    }, HINT_INTERVAL_MS);
+
+    return () => window.clearInterval(interval);
+  }, [isStarting, error, mirrored]);
+
+  const capture = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0);
+
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        setError("Failed to capture the photo. Please try again.");
+        return;
+      }
+      stopStream();
+      onCapture(new File([blob], `selfie-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    }, 'image/jpeg', 0.95);
+  }, [onCapture, stopStream]);
+
+  // Countdown ticker
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      capture();
+      return;
+    }
+    const timeout = window.setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => window.clearTimeout(timeout);
+  }, [countdown, capture]);
+
+  const handleClose = () => {
+    stopStream();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black flex flex-col">
+      <div className="flex items-center justify-between p-4 text-white">
+        <span className="font-bold">Take a Selfie</span>
+        <button onClick={handleClose} className="bg-white/10 hover:bg-white/20 p-2 rounded-full transition-colors" aria-label="Close camera">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="relative flex-grow overflow-hidden flex items-center justify-center">
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className="w-full h-full object-cover"
+          style={{ transform: mirrored ? 'scaleX(-1)' : undefined }}
+        />
+
+        {/* Oval framing guide */}
+        {!error && (
+          <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+            <defs>
+              <mask id="face-oval-mask">
+                <rect width="100" height="100" fill="white" />
+                <ellipse cx="50" cy="46" rx="22" ry="30" fill="black" />
+              </mask>
+            </defs>
+            <rect width="100" height="100" fill="rgba(0,0,0,0.55)" mask="url(#face-oval-mask)" />
+            <ellipse
+              cx="50" cy="46" rx="22" ry="30"
+              fill="none"
+              stroke={hint ? '#E5E5E5' : '#CFB53B'}
+              strokeWidth="0.6"
+              strokeDasharray={hint ? '2 1.5' : undefined}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        )}
+
+        {isStarting && !error && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="w-10 h-10 text-primary animate-spin" />
+          </div>
+        )}
+
+        {error && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-center p-8 space-y-4">
+            <AlertCircle className="w-12 h-12 text-red-500" />
+            <p className="text-white max-w-sm">{error}</p>
+            <button onClick={handleClose} className="text-sm underline text-gray-300 hover:text-white">Upload a photo instead</button>
+          </div>
+        )}
+
+        {countdown !== null && countdown > 0 && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <span className="text-8xl font-black text-primary drop-shadow-[0_0_20px_rgba(0,0,0,0.8)]">{countdown}</span>
+          </div>
+        )}
+
+        {!error && !isStarting && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-black/60 backdrop-blur-sm px-4 py-2 rounded-full text-sm text-white whitespace-nowrap">
+            {hint || "Looking good - hold still"}
+          </div>
+        )}
+      </div>
+
+      <div className="p-6 flex items-center justify-center gap-8 bg-black">
+        <div className="w-12" />
+        <button
+          onClick={() => setCountdown(COUNTDOWN_SECONDS)}
+          disabled={isStarting || !!error || countdown !== null}
+          className="p-1 rounded-full border-4 border-white disabled:opacity-40 transition-transform hover:scale-105"
+          aria-label="Capture photo"
+        >
+          <span className="w-14 h-14 rounded-full bg-primary flex items-center justify-center text-secondary">
+            <Camera className="w-6 h-6" />
+          </span>
+        </button>
+        {hasMultipleCameras ? (
+          <button
+            onClick={() => setFacingMode(mirrored ? 'environment' : 'user')}
+            disabled={countdown !== null}
+            className="w-12 h-12 rounded-full bg-white/10 hover:bg-white/20 text-white flex items-center justify-center transition-colors disabled:opacity-40"
+            aria-label="Switch camera"
+          >
+            <SwitchCamera className="w-6 h-6" />
+          </button>
+        ) : (
+          <div className="w-12" />
+        )}
+      </div>
+    </div>
+  );
+};
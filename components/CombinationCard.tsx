@@ -1,89 +1,101 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { StyleCombination } from '../types';
-import { Sparkles, Loader2, Share2, Heart, ChevronsLeftRight } from 'lucide-react';
-import { generateLookPreview } from '../services/geminiService';
+import { AnalysisResult, StyleCombination } from '../types';
+import { Sparkles, Share2, Heart, ClipboardList, UserCheck, RefreshCw } from 'lucide-react';
+import { enqueuePreview, cancelPreview, isJobPending } from '../services/generationQueue';
+import { getErrorMessage } from '../services/errors';
+import { describeCombination, lookEditRegions } from '../services/lookPrompts';
+import { findSavedLook, saveLook, removeSavedLook, setSavedLookImages, subscribeToSavedLooks } from '../services/savedLooksStore';
+import { findStyleSpec } from '../services/cuttingGuidance';
+import { buildSharedLook } from '../services/shareLink';
+import { BarberHandoffSheet } from './BarberHandoffSheet';
+import { GenerationProgress } from './GenerationProgress';
+import { VariationStrip } from './VariationStrip';
+import { usePreviewVariations } from './usePreviewVariations';
+import { RefinementPanel } from './RefinementPanel';
+import { IdentityWarning } from './IdentityWarning';
+import { useLookRefinement } from './useLookRefinement';
+import { ComparisonViewer, lookComparisonImages } from './ComparisonViewer';
+import { ShareLinkButton } from './ShareLinkButton';
 
 interface CombinationCardProps {
   combination: StyleCombination;
   originalImageBase64: string;
+  analysis?: AnalysisResult;
+  // Generation queue key; "Visualize all" queues under the same key so the card picks the result up
+  jobKey: string;
+  // Preview restored from a saved session
+  initialImage?: string;
+  onPreviewGenerated?: (imageUrl: string) => void;
 }
 
-export const CombinationCard: React.FC<CombinationCardProps> = ({ combination, originalImageBase64 }) => {
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+export const CombinationCard: React.FC<CombinationCardProps> = ({ combination, originalImageBase64, analysis, jobKey, initialImage, onPreviewGenerated }) => {
   const [isSaved, setIsSaved] = useState(false);
-  const [sliderPosition, setSliderPosition] = useState(50);
-  const containerRef = useRef<HTMLDivElement>(null);
+  const [showBarberSheet, setShowBarberSheet] = useState(false);
+  const description = describeCombination(combination);
+  const editRegions = lookEditRegions(combination.hairstyle, combination.facialHair);
+  const variations = usePreviewVariations(jobKey, originalImageBase64, description, editRegions, initialImage);
+  // The slider shows the selected variation; the pinned favourite is what gets saved
+  const generatedImage = variations.selected?.imageUrl ?? null;
+  const favouriteImage = variations.favourite?.imageUrl ?? null;
+  // Refinements build on the selected variation and, once made, are the look
+  const refinement = useLookRefinement(jobKey, originalImageBase64, description, editRegions, generatedImage);
+  const displayedImage = refinement.currentImage ?? generatedImage;
+  const lookImage = refinement.currentImage ?? favouriteImage;
+  const displayedIdentity = refinement.steps.length > 0
+    ? refinement.steps[refinement.steps.length - 1].identity
+    : variations.selected?.identity;
+  const job = variations.jobs[jobKey];
+  const isPending = isJobPending(job);
+  const error = job?.status === 'error' ? getErrorMessage(job.error, 'preview') : null;
+  // Favourite last reported to the session, so restored or unchanged images aren't re-saved
+  const reportedImage = useRef<string | null>(initialImage ?? null);
 
   useEffect(() => {
-    // Check if look is already saved on mount
-    try {
-      const savedData = localStorage.getItem('styleScout_savedLooks');
-      if (savedData) {
-        const savedLooks: StyleCombination[] = JSON.parse(savedData);
-        const exists = savedLooks.some(
-          (look) => look.name === combination.name && look.description === combination.description
-        );
-        setIsSaved(exists);
-      }
-    } catch (err) {
-      console.error('Error reading localStorage', err);
-    }
+    // Keep the heart in sync with the saved-looks store, including removals from the gallery
+    const syncSaved = () => setIsSaved(!!findSavedLook(combination));
+    syncSaved();
+    return subscribeToSavedLooks(syncSaved);
   }, [combination]);
 
-  const toggleSaveLook = () => {
+  const toggleSaveLook = async () => {
     try {
-      const savedData = localStorage.getItem('styleScout_savedLooks');
-      let savedLooks: StyleCombination[] = savedData ? JSON.parse(savedData) : [];
-
-      if (isSaved) {
-        // Remove
-        savedLooks = savedLooks.filter(
-          (look) => !(look.name === combination.name && look.description === combination.description)
-        );
+      const existing = findSavedLook(combination);
+      if (existing) {
+        await removeSavedLook(existing.id);
       } else {
-        // Add
-        savedLooks.push(combination);
+        await saveLook(combination, { faceShape: analysis?.faceShape, generatedImage: lookImage, sourceImage: originalImageBase64 });
       }
-
-      localStorage.setItem('styleScout_savedLooks', JSON.stringify(savedLooks));
-      setIsSaved(!isSaved);
     } catch (err) {
-      console.error('Error updating localStorage', err);
+      console.error('Error updating saved looks', err);
     }
   };
 
-  const handleVisualize = async () => {
-    setIsGenerating(true);
-    setError(null);
-    try {
-      // Build description based on what's available
-      let promptParts = [];
-      if (combination.hairstyle) promptParts.push(`Hairstyle: ${combination.hairstyle}`);
-      if (combination.facialHair) promptParts.push(`Facial Hair: ${combination.facialHair}`);
-      
-      const description = `${promptParts.join('. ')}. Look details: ${combination.description}`;
-      
-      const imageUrl = await generateLookPreview(originalImageBase64, description);
-      setGeneratedImage(imageUrl);
-      setSliderPosition(50); // Reset slider to middle
-    } catch (err) {
-      console.error(err);
-      setError("Could not generate preview. Please try again.");
-    } finally {
-      setIsGenerating(false);
+  // Report the favourite whether this card, a variation or "Visualize all" produced it
+  useEffect(() => {
+    if (!lookImage || lookImage === reportedImage.current) return;
+    reportedImage.current = lookImage;
+    onPreviewGenerated?.(lookImage);
+
+    // Already-saved looks pick up the new favourite in the gallery
+    const saved = findSavedLook(combination);
+    if (saved) {
+      setSavedLookImages(saved.id, { generatedImage: lookImage }).catch(err => console.error('Error updating saved look', err));
     }
+  }, [lookImage]);
+
+  const handleVisualize = () => {
+    enqueuePreview(jobKey, originalImageBase64, description, { editRegions });
   };
 
-  const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSliderPosition(Number(e.target.value));
+  // Skips the cached image for the variation on screen
+  const handleRegenerate = () => {
+    if (variations.selected) variations.regenerateVariation(variations.selected.key);
   };
 
   const downloadImage = () => {
-    if (!generatedImage) return;
+    if (!displayedImage) return;
     const link = document.createElement('a');
-    link.href = generatedImage;
+    link.href = displayedImage;
     link.download = `stylescout-look-${combination.name.replace(/\s+/g, '-').toLowerCase()}.png`;
     document.body.appendChild(link);
     link.click();
@@ -91,11 +103,11 @@ export const CombinationCard: React.FC<CombinationCardProps> = ({ combination, o
   };
 
   const handleShare = async () => {
-    if (!generatedImage) return;
+    if (!displayedImage) return;
 
     if (navigator.share) {
       try {
-        const response = await fetch(generatedImage);
+        const response = await fetch(displayedImage);
         const blob = await response.blob();
         const file = new File([blob], `stylescout-look-${combination.name.replace(/\s+/g, '-').toLowerCase()}.png`, { type: 'image/png' });
 
@@ -119,6 +131,14 @@ export const CombinationCard: React.FC<CombinationCardProps> = ({ combination, o
         <div className="flex items-center justify-between mb-3">
           <h3 className="text-2xl font-bold text-white tracking-tight">{combination.name}</h3>
           <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowBarberSheet(true)}
+              className="p-2 rounded-full bg-surface/50 text-gray-400 hover:text-primary hover:bg-surface border border-transparent hover:border-gray-600 transition-all duration-300"
+              aria-label="Open barber handoff sheet"
+              title="Take this to your barber"
+            >
+              <ClipboardList className="w-5 h-5" />
+            </button>
              <button
               onClick={toggleSaveLook}
               className={`p-2 rounded-full transition-all duration-300 ${
@@ -160,64 +180,29 @@ export const CombinationCard: React.FC<CombinationCardProps> = ({ combination, o
         <p className="text-xs text-gray-500 italic border-l-2 border-gray-700 pl-3">
           {combination.reasoning}
         </p>
+
+        {combination.constraintFit && (
+          <p className="text-xs text-gray-400 mt-3 flex items-start gap-2">
+            <UserCheck className="w-3.5 h-3.5 text-green-400 mt-0.5 flex-shrink-0" />
+            {combination.constraintFit}
+          </p>
+        )}
       </div>
 
       <div className="p-6 pt-0 mt-auto space-y-4">
         {generatedImage ? (
           <div className="space-y-3 animate-fade-in">
-            {/* COMPARISON SLIDER */}
-            <div 
-              ref={containerRef}
-              className="relative rounded-lg overflow-hidden border border-gray-700 aspect-square group select-none"
-            >
-               {/* 1. Background: Original Image */}
-               <img 
-                 src={originalImageBase64} 
-                 alt="Original" 
-                 className="absolute inset-0 w-full h-full object-cover"
-               />
+            <ComparisonViewer
+              originalImage={originalImageBase64}
+              images={lookComparisonImages(variations, refinement)}
+              primaryKey={refinement.currentImage ? undefined : variations.selected?.key}
+            />
 
-               {/* 2. Foreground: Generated Image (Clipped) */}
-               <div 
-                 className="absolute inset-0 overflow-hidden"
-                 style={{ width: `${sliderPosition}%` }}
-               >
-                 <img 
-                   src={generatedImage} 
-                   alt="Generated" 
-                   className="absolute inset-0 h-full max-w-none object-cover"
-                   style={{ width: containerRef.current?.offsetWidth || '100%' }}
-                 />
-               </div>
+            <IdentityWarning check={displayedIdentity} onRegenerate={refinement.steps.length === 0 ? handleRegenerate : undefined} />
 
-               {/* 3. Slider Handle */}
-               <div 
-                  className="absolute inset-y-0 w-1 bg-white cursor-ew-resize shadow-[0_0_10px_2px_rgba(0,0,0,0.5)] z-20"
-                  style={{ left: `${sliderPosition}%` }}
-               >
-                 <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 bg-white rounded-full flex items-center justify-center shadow-lg border-2 border-primary text-primary">
-                    <ChevronsLeftRight size={16} />
-                 </div>
-               </div>
-               
-               {/* 4. Labels */}
-               <div className="absolute top-2 left-2 bg-black/60 backdrop-blur-sm text-primary text-[10px] px-2 py-1 rounded z-10 font-bold border border-primary/20">
-                 AFTER
-               </div>
-               <div className="absolute top-2 right-2 bg-black/60 backdrop-blur-sm text-gray-300 text-[10px] px-2 py-1 rounded z-10 font-bold">
-                 BEFORE
-               </div>
+            <VariationStrip state={variations} />
 
-               {/* 5. Invisible Input for Interaction */}
-               <input 
-                 type="range" 
-                 min="0" 
-                 max="100" 
-                 value={sliderPosition} 
-                 onChange={handleSliderChange}
-                 className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize z-30"
-               />
-            </div>
+            <RefinementPanel refinement={refinement} />
             
             <div className="flex gap-2">
               <button 
@@ -227,8 +212,17 @@ export const CombinationCard: React.FC<CombinationCardProps> = ({ combination, o
                 <Share2 className="w-3 h-3" />
                 Share Look
               </button>
+              <ShareLinkButton getLook={() => buildSharedLook(combination, analysis, lookImage)} />
+              <button
+                onClick={handleRegenerate}
+                className="py-2 px-3 bg-secondary border border-gray-600 text-gray-400 rounded-lg text-xs font-medium hover:text-white hover:border-gray-500 transition-colors"
+                title="Regenerate the variation on screen"
+                aria-label="Regenerate preview"
+              >
+                <RefreshCw className="w-3 h-3" />
+              </button>
               <button 
-                onClick={() => setGeneratedImage(null)}
+                onClick={variations.reset}
                 className="py-2 px-3 bg-secondary border border-gray-600 text-gray-400 rounded-lg text-xs font-medium hover:text-white hover:border-gray-500 transition-colors"
               >
                 Reset
@@ -237,34 +231,38 @@ export const CombinationCard: React.FC<CombinationCardProps> = ({ combination, o
           </div>
         ) : (
           <div className="space-y-3">
-             {error && <p className="text-red-400 text-xs text-center">{error}</p>}
-             <button
-              onClick={handleVisualize}
-              disabled={isGenerating}
-              className={`w-full py-3 px-4 rounded-lg font-semibold text-sm transition-all flex items-center justify-center gap-2
-                ${isGenerating 
-                  ? 'bg-gray-800 text-gray-400 cursor-not-allowed' 
-                  : 'bg-primary/10 text-primary hover:bg-primary hover:text-secondary border border-primary/20 hover:border-transparent'}
-              `}
-            >
-              {isGenerating ? (
-                <>
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                  Generating New Look...
-                </>
-              ) : (
-                <>
-                  <Sparkles className="w-4 h-4" />
-                  Visualize This Look
-                </>
-              )}
-            </button>
+            {error && <p className="text-red-400 text-xs text-center">{error}</p>}
+            {job && isPending ? (
+              <GenerationProgress job={job} onCancel={() => cancelPreview(jobKey)} runningLabel="Generating New Look..." />
+            ) : (
+              <button
+                onClick={handleVisualize}
+                className="w-full py-3 px-4 rounded-lg font-semibold text-sm transition-all flex items-center justify-center gap-2 bg-primary/10 text-primary hover:bg-primary hover:text-secondary border border-primary/20 hover:border-transparent"
+              >
+                <Sparkles className="w-4 h-4" />
+                Visualize This Look
+              </button>
+            )}
             <p className="text-[10px] text-center text-gray-600">
               Generates an AI preview of you with this style.
             </p>
           </div>
         )}
       </div>
+
+      {showBarberSheet && (
+        <BarberHandoffSheet
+          combination={combination}
+          beforeImage={originalImageBase64}
+          afterImage={lookImage}
+          hairSpec={findStyleSpec(analysis?.hairstyles, combination.hairstyle)}
+          beardSpec={findStyleSpec(analysis?.facialHair, combination.facialHair)}
+          faceShape={analysis?.faceShape}
+          faceAnalysis={analysis?.faceAnalysis}
+          groomingTips={analysis?.groomingTips}
+          onClose={() => setShowBarberSheet(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
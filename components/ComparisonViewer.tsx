@@ -0,0 +1,392 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronsLeftRight, Columns2, Repeat, Blend, Grid2x2, ZoomIn, ZoomOut, Play, Pause } from 'lucide-react';
+import { PreviewVariationsState } from './usePreviewVariations';
+import { LookRefinementState } from './useLookRefinement';
+
+export interface ComparisonImage {
+  key: string;
+  label: string;
+  imageUrl: string;
+}
+
+type ComparisonMode = 'slider' | 'sideBySide' | 'blink' | 'onion' | 'grid';
+
+interface ComparisonViewerProps {
+  originalImage: string;
+  // Generated looks that can be compared, in display order
+  images: ComparisonImage[];
+  // Look on the "after" side; defaults to the first image
+  primaryKey?: string;
+  className?: string;
+}
+
+interface Zoom {
+  scale: number;
+  // Pan as a percentage of the pane size, so panes of any size stay in sync
+  x: number;
+  y: number;
+}
+
+const ORIGINAL_KEY = 'original';
+// Looks shown next to the original in grid mode
+const MAX_GRID_LOOKS = 4;
+const MAX_ZOOM = 4;
+const BLINK_INTERVAL_MS = 700;
+const NO_ZOOM: Zoom = { scale: 1, x: 0, y: 0 };
+
+const MODES: { id: ComparisonMode; label: string; icon: React.ReactNode }[] = [
+  { id: 'slider', label: 'Slider', icon: <ChevronsLeftRight className="w-3.5 h-3.5" /> },
+  { id: 'sideBySide', label: 'Side by side', icon: <Columns2 className="w-3.5 h-3.5" /> },
+  { id: 'blink', label: 'Toggle', icon: <Repeat className="w-3.5 h-3.5" /> },
+  { id: 'onion', label: 'Onion skin', icon: <Blend className="w-3.5 h-3.5" /> },
+  { id: 'grid', label: 'Grid', icon: <Grid2x2 className="w-3.5 h-3.5" /> },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Keeps the zoomed image covering its pane
+const clampZoom = ({ scale, x, y }: Zoom): Zoom => {
+  const nextScale = clamp(scale, 1, MAX_ZOOM);
+  const limit = ((nextScale - 1) / 2) * 100;
+  return { scale: nextScale, x: clamp(x, -limit, limit), y: clamp(y, -limit, limit) };
+};
+
+// Every variation with an image, plus the latest refinement when there is one
+export const lookComparisonImages = (variations: PreviewVariationsState, refinement?: LookRefinementState): ComparisonImage[] => {
+  const images = variations.variations
+    .map((variation, index) => ({ key: variation.key, label: `Variation ${index + 1}`, imageUrl: variation.imageUrl }))
+    .filter((image): image is ComparisonImage => !!image.imageUrl);
+  return refinement?.currentImage
+    ? [{ key: 'refined', label: 'Refined', imageUrl: refinement.currentImage }, ...images]
+    : images;
+};
+
+const Label: React.FC<{ text: string; side: 'left' | 'right'; highlight?: boolean }> = ({ text, side, highlight }) => (
+  <div
+    className={`absolute top-2 ${side === 'left' ? 'left-2' : 'right-2'} bg-black/60 backdrop-blur-sm text-[10px] px-2 py-1 rounded z-10 font-bold uppercase pointer-events-none ${
+      highlight ? 'text-primary border border-primary/20' : 'text-gray-300'
+    }`}
+  >
+    {text}
+  </div>
+);
+
+/**
+ * Before/after viewer for generated looks: slider, side by side, toggle, onion skin and a grid of
+ * up to four looks against the original. Either side can be another look instead of the original.
+ * Scroll (once focused), pinch or the zoom buttons zoom every pane together; drag pans.
+ * Keys: 1-5 switch mode, arrows move the slider or opacity, +/- zoom, 0 resets, space toggles.
+ */
+export const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ originalImage, images, primaryKey, className = '' }) => {
+  const [mode, setMode] = useState<ComparisonMode>('slider');
+  const [compareKey, setCompareKey] = useState(ORIGINAL_KEY);
+  const [sliderPosition, setSliderPosition] = useState(50);
+  const [opacity, setOpacity] = useState(0.5);
+  const [showingPrimary, setShowingPrimary] = useState(true);
+  const [isBlinking, setIsBlinking] = useState(false);
+  const [zoom, setZoom] = useState<Zoom>(NO_ZOOM);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  // Pan moves are measured against the pane they started on
+  const gesture = useRef<{ kind: 'slider' | 'pan' | 'pinch'; distance?: number; pane?: DOMRect } | null>(null);
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+
+  const original: ComparisonImage = { key: ORIGINAL_KEY, label: 'Before', imageUrl: originalImage };
+  const primary = images.find(image => image.key === primaryKey) ?? images[0];
+  // A look that has since been removed falls back to the original
+  const compare = images.find(image => image.key === compareKey && image.key !== primary?.key) ?? original;
+  const gridImages = [original, ...images.slice(0, MAX_GRID_LOOKS)];
+
+  useEffect(() => {
+    if (!isBlinking || mode !== 'blink') return;
+    const timer = window.setInterval(() => setShowingPrimary(current => !current), BLINK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isBlinking, mode]);
+
+  // React registers wheel listeners as passive, so zooming needs a native one to stop the page scrolling
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+    const handleWheel = (e: WheelEvent) => {
+      // Trackpad pinches arrive as ctrl+wheel; plain scrolling only zooms a focused or zoomed viewer
+      const focused = document.activeElement === frame;
+      if (!e.ctrlKey && !focused && zoomRef.current.scale === 1) return;
+      e.preventDefault();
+      const factor = Math.exp(-e.deltaY * 0.002);
+      setZoom(current => clampZoom({ ...current, scale: current.scale * factor }));
+    };
+    frame.addEventListener('wheel', handleWheel, { passive: false });
+    return () => frame.removeEventListener('wheel', handleWheel);
+  }, [!!primary]);
+
+  const zoomBy = (factor: number) => setZoom(current => clampZoom({ ...current, scale: current.scale * factor }));
+
+  const pan = (dx: number, dy: number) => setZoom(current => clampZoom({ ...current, x: current.x + dx, y: current.y + dy }));
+
+  const selectMode = (next: ComparisonMode) => {
+    setMode(next);
+    setIsBlinking(false);
+    setShowingPrimary(true);
+  };
+
+  const sliderFromPointer = (clientX: number) => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (rect && rect.width > 0) setSliderPosition(clamp(((clientX - rect.left) / rect.width) * 100, 0, 100));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      gesture.current = { kind: 'pinch', distance: Math.hypot(a.x - b.x, a.y - b.y) };
+    } else if (mode === 'slider' && (zoom.scale === 1 || (e.target as HTMLElement).closest('[data-slider-handle]'))) {
+      gesture.current = { kind: 'slider' };
+      sliderFromPointer(e.clientX);
+    } else if (zoom.scale > 1) {
+      // Side-by-side and grid panes are smaller than the frame, and all of them should move the same amount
+      const pane = (e.target as HTMLElement).closest('[data-comparison-pane]') ?? e.currentTarget;
+      gesture.current = { kind: 'pan', pane: pane.getBoundingClientRect() };
+    } else if (mode === 'blink') {
+      setShowingPrimary(current => !current);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous || !gesture.current) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (gesture.current.kind === 'pinch' && pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      if (gesture.current.distance) zoomBy(distance / gesture.current.distance);
+      gesture.current.distance = distance;
+    } else if (gesture.current.kind === 'slider') {
+      sliderFromPointer(e.clientX);
+    } else if (gesture.current.kind === 'pan' && gesture.current.pane) {
+      const { width, height } = gesture.current.pane;
+      if (width > 0 && height > 0) pan(((e.clientX - previous.x) / width) * 100, ((e.clientY - previous.y) / height) * 100);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size === 0) gesture.current = null;
+    // Lifting one finger of a pinch carries on as a pan
+    else if (gesture.current?.kind === 'pinch') {
+      gesture.current = zoom.scale > 1 ? { kind: 'pan', pane: e.currentTarget.getBoundingClientRect() } : null;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const modeIndex = Number(e.key) - 1;
+    if (modeIndex >= 0 && modeIndex < MODES.length) {
+      selectMode(MODES[modeIndex].id);
+    } else if (e.key === '+' || e.key === '=') {
+      zoomBy(1.25);
+    } else if (e.key === '-') {
+      zoomBy(0.8);
+    } else if (e.key === '0') {
+      setZoom(NO_ZOOM);
+    } else if (e.key.startsWith('Arrow') && (e.shiftKey || (mode !== 'slider' && mode !== 'onion'))) {
+      if (zoom.scale === 1) return;
+      const step = 5;
+      pan(e.key === 'ArrowLeft' ? step : e.key === 'ArrowRight' ? -step : 0, e.key === 'ArrowUp' ? step : e.key === 'ArrowDown' ? -step : 0);
+    } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      const direction = e.key === 'ArrowLeft' ? -1 : 1;
+      if (mode === 'slider') setSliderPosition(current => clamp(current + direction * 5, 0, 100));
+      else setOpacity(current => clamp(current + direction * 0.1, 0, 1));
+    } else if ((e.key === ' ' || e.key === 'Enter') && mode === 'blink') {
+      setShowingPrimary(current => !current);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  if (!primary) return null;
+
+  const transform = `translate(${zoom.x}%, ${zoom.y}%) scale(${zoom.scale})`;
+
+  const pane = (image: ComparisonImage, style?: React.CSSProperties) => (
+    <div data-comparison-pane className="absolute inset-0 overflow-hidden" style={style}>
+      <img
+        src={image.imageUrl}
+        alt={image.label}
+        draggable={false}
+        className="absolute inset-0 w-full h-full object-cover"
+        style={{ transform }}
+      />
+    </div>
+  );
+
+  const renderFrame = () => {
+    switch (mode) {
+      case 'slider':
+        return (
+          <>
+            {pane(compare)}
+            {/* Both images share the original's size (see hairMask), so clipping lines them up exactly */}
+            {pane(primary, { clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` })}
+            <div
+              data-slider-handle
+              className="absolute inset-y-0 w-1 bg-white cursor-ew-resize shadow-[0_0_10px_2px_rgba(0,0,0,0.5)] z-20"
+              style={{ left: `${sliderPosition}%` }}
+            >
+              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 bg-white rounded-full flex items-center justify-center shadow-lg border-2 border-primary text-primary">
+                <ChevronsLeftRight size={16} />
+              </div>
+            </div>
+            <Label text={compare === original ? 'After' : primary.label} side="left" highlight />
+            <Label text={compare.label} side="right" />
+          </>
+        );
+      case 'sideBySide':
+        return (
+          <div className="absolute inset-0 grid grid-cols-2 gap-0.5 bg-gray-700">
+            {[primary, compare].map((image, index) => (
+              <div key={image.key} className="relative">
+                {pane(image)}
+                <Label text={image.label} side="left" highlight={index === 0} />
+              </div>
+            ))}
+          </div>
+        );
+      case 'blink': {
+        const shown = showingPrimary ? primary : compare;
+        return (
+          <>
+            {pane(shown)}
+            <Label text={shown.label} side="left" highlight={showingPrimary} />
+          </>
+        );
+      }
+      case 'onion':
+        return (
+          <>
+            {pane(compare)}
+            {pane(primary, { opacity })}
+            <Label text={`${primary.label} ${Math.round(opacity * 100)}%`} side="left" highlight />
+            <Label text={compare.label} side="right" />
+          </>
+        );
+      case 'grid':
+        return (
+          <div className={`absolute inset-0 grid gap-0.5 bg-gray-700 ${gridImages.length > 4 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+            {gridImages.map((image, index) => (
+              <div key={image.key} className="relative">
+                {pane(image)}
+                <Label text={image.label} side="left" highlight={index > 0} />
+              </div>
+            ))}
+          </div>
+        );
+    }
+  };
+
+  const candidates = [original, ...images.filter(image => image.key !== primary.key)];
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex flex-wrap items-center gap-1">
+        {MODES.map((option, index) => (
+          <button
+            key={option.id}
+            onClick={() => selectMode(option.id)}
+            className={`p-1.5 rounded-md border transition-colors ${
+              mode === option.id ? 'border-primary text-primary bg-primary/10' : 'border-gray-700 text-gray-400 hover:text-white'
+            }`}
+            title={`${option.label} (${index + 1})`}
+            aria-label={option.label}
+            aria-pressed={mode === option.id}
+          >
+            {option.icon}
+          </button>
+        ))}
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => zoomBy(0.8)}
+            disabled={zoom.scale === 1}
+            className="p-1.5 rounded-md border border-gray-700 text-gray-400 hover:text-white disabled:opacity-40"
+            title="Zoom out (-)"
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => setZoom(NO_ZOOM)}
+            className="px-1.5 text-[10px] font-mono text-gray-400 hover:text-white w-9"
+            title="Reset zoom (0)"
+          >
+            {Math.round(zoom.scale * 100)}%
+          </button>
+          <button
+            onClick={() => zoomBy(1.25)}
+            disabled={zoom.scale === MAX_ZOOM}
+            className="p-1.5 rounded-md border border-gray-700 text-gray-400 hover:text-white disabled:opacity-40"
+            title="Zoom in (+)"
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={frameRef}
+        tabIndex={0}
+        role="group"
+        aria-label="Before and after comparison. Keys 1 to 5 switch mode, arrows adjust, plus and minus zoom."
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        className={`relative rounded-lg overflow-hidden border border-gray-700 aspect-square select-none touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-primary ${
+          zoom.scale > 1 ? 'cursor-grab active:cursor-grabbing' : mode === 'blink' ? 'cursor-pointer' : ''
+        }`}
+      >
+        {renderFrame()}
+      </div>
+
+      {mode !== 'grid' && (
+        <div className="flex flex-wrap items-center gap-2 text-[11px] text-gray-400">
+          <label className="flex items-center gap-1.5">
+            Compare with
+            <select
+              value={compare.key}
+              onChange={(e) => setCompareKey(e.target.value)}
+              className="bg-secondary border border-gray-700 rounded px-1.5 py-0.5 text-gray-200 focus:outline-none focus:border-primary"
+            >
+              {candidates.map(image => (
+                <option key={image.key} value={image.key}>{image.key === ORIGINAL_KEY ? 'Original photo' : image.label}</option>
+              ))}
+            </select>
+          </label>
+          {mode === 'onion' && (
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={Math.round(opacity * 100)}
+              onChange={(e) => setOpacity(Number(e.target.value) / 100)}
+              className="flex-1 min-w-[6rem] accent-primary"
+              aria-label={`${primary.label} opacity`}
+            />
+          )}
+          {mode === 'blink' && (
+            <button
+              onClick={() => setIsBlinking(current => !current)}
+              className="flex items-center gap-1 text-gray-300 hover:text-primary"
+            >
+              {isBlinking ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+              {isBlinking ? 'Stop' : 'Auto-blink'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
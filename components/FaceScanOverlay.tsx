@@ -0,0 +1,70 @@
+import React from 'react';
+import { FaceScan } from '../types';
+import { describeFaceRatios } from '../services/faceDetection';
+
+interface FaceScanOverlayProps {
+  scan: FaceScan;
+}
+
+// Detected outline, landmarks and measurement lines drawn over an object-cover photo during the scan
+export const FaceScanOverlay: React.FC<FaceScanOverlayProps> = ({ scan }) => {
+  const { imageWidth: width, imageHeight: height } = scan;
+  const px = (value: number, size: number) => value * size;
+  const outline = scan.outline.map(point => `${px(point.x, width)},${px(point.y, height)}`).join(' ');
+  const dot = Math.max(width, height) * 0.006;
+
+  return (
+    <>
+      {/* "slice" crops exactly like object-cover, so the points stay on the face */}
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="xMidYMid slice"
+        className="absolute inset-0 w-full h-full"
+      >
+        <polygon
+          points={outline}
+          fill="none"
+          stroke="rgba(207,181,59,0.7)"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+          className="landmark-draw"
+        />
+        {scan.measurements.map((measurement, index) => (
+          <line
+            key={measurement.id}
+            x1={px(measurement.from.x, width)}
+            y1={px(measurement.from.y, height)}
+            x2={px(measurement.to.x, width)}
+            y2={px(measurement.to.y, height)}
+            stroke="rgba(255,255,255,0.8)"
+            strokeWidth={1}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+            className="landmark-draw"
+            style={{ animationDelay: `${0.4 + index * 0.3}s` }}
+          />
+        ))}
+        {scan.keyPoints.map((point, index) => (
+          <circle
+            key={index}
+            cx={px(point.x, width)}
+            cy={px(point.y, height)}
+            r={dot}
+            fill="#CFB53B"
+            className="landmark-draw animate-pulse"
+            style={{ animationDelay: `${index * 0.1}s` }}
+          />
+        ))}
+      </svg>
+
+      <div className="absolute top-4 left-4 bg-black/70 backdrop-blur-sm rounded-lg px-3 py-2 text-[11px] space-y-0.5 landmark-draw" style={{ animationDelay: '1.6s' }}>
+        {describeFaceRatios(scan).map(ratio => (
+          <div key={ratio.label} className="flex justify-between gap-4">
+            <span className="text-gray-400">{ratio.label}</span>
+            <span className="text-primary font-mono">{ratio.value}</span>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Sparkles, Info, UserCheck, RefreshCw } from 'lucide-react';
+import { HairColorRecommendation, IdentityCheck } from '../types';
+import { enqueuePreview, cancelPreview, isJobPending } from '../services/generationQueue';
+import { getErrorMessage } from '../services/errors';
+import { FeatureSection } from '../services/analysisModes';
+import { describeFeatureLook, FEATURE_EDIT_REGIONS } from '../services/lookPrompts';
+import { EYEWEAR_IDENTITY_LAYOUT } from '../services/identityCheck';
+import { GenerationProgress } from './GenerationProgress';
+import { IdentityWarning } from './IdentityWarning';
+import { useGenerationJob } from './useGenerationJob';
+import { ComparisonViewer } from './ComparisonViewer';
+
+interface FeatureCardProps {
+  // Hair colors carry a swatch; eyebrow and eyewear entries are plain recommendations
+  recommendation: HairColorRecommendation;
+  section: FeatureSection;
+  originalImageBase64: string;
+  jobKey: string;
+  initialImage?: string;
+  onPreviewGenerated?: (imageUrl: string) => void;
+}
+
+export const FeatureCard: React.FC<FeatureCardProps> = ({ recommendation, section, originalImageBase64, jobKey, initialImage, onPreviewGenerated }) => {
+  const [generatedImage, setGeneratedImage] = useState<string | null>(initialImage ?? null);
+  const [identity, setIdentity] = useState<IdentityCheck | null>(null);
+  const job = useGenerationJob(jobKey);
+  const error = job?.status === 'error' ? getErrorMessage(job.error, 'preview') : null;
+  const adoptedJobId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (job?.status !== 'done' || !job.imageUrl || job.id === adoptedJobId.current) return;
+    adoptedJobId.current = job.id;
+    setGeneratedImage(job.imageUrl);
+    setIdentity(job.identity ?? null);
+    // Trying a reset look again can hit the cache and return the preview the session already has
+    if (job.imageUrl !== initialImage) onPreviewGenerated?.(job.imageUrl);
+  }, [job]);
+
+  // `regenerate` skips the cached image for this look
+  const handleVisualize = (regenerate = false) => {
+    enqueuePreview(jobKey, originalImageBase64, describeFeatureLook(section, recommendation), {
+      regenerate,
+      identityLayout: section === 'eyewear' ? EYEWEAR_IDENTITY_LAYOUT : undefined,
+      editRegions: FEATURE_EDIT_REGIONS[section],
+    });
+  };
+
+  const handleRegenerate = () => handleVisualize(true);
+
+  const handleReset = () => {
+    cancelPreview(jobKey);
+    setGeneratedImage(null);
+    setIdentity(null);
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-surface to-[#1F1F1F] rounded-xl overflow-hidden border border-gray-700 shadow-xl flex flex-col h-full">
+      <div className="p-6 flex-grow space-y-4">
+        <div className="flex items-center gap-3">
+          {recommendation.swatch && (
+            <span
+              className="w-10 h-10 rounded-full border-2 border-white/20 shadow-inner flex-shrink-0"
+              style={{ backgroundColor: recommendation.swatch }}
+              title={recommendation.swatch}
+            />
+          )}
+          <h3 className="text-xl font-bold text-white tracking-tight">{recommendation.name}</h3>
+        </div>
+        <p className="text-gray-300 text-sm leading-relaxed">{recommendation.description}</p>
+        <div className="flex items-start gap-2 text-xs text-gray-400 italic border-l-2 border-gray-700 pl-3">
+          <Info className="w-3.5 h-3.5 text-primary mt-0.5 flex-shrink-0 not-italic" />
+          {recommendation.reasoning}
+        </div>
+        {recommendation.constraintFit && (
+          <p className="text-xs text-gray-400 flex items-start gap-2">
+            <UserCheck className="w-3.5 h-3.5 text-green-400 mt-0.5 flex-shrink-0" />
+            {recommendation.constraintFit}
+          </p>
+        )}
+      </div>
+
+      <div className="p-6 pt-0 mt-auto space-y-3">
+        {generatedImage ? (
+          <>
+            <ComparisonViewer
+              originalImage={originalImageBase64}
+              images={[{ key: jobKey, label: recommendation.name, imageUrl: generatedImage }]}
+              className="animate-fade-in"
+            />
+            <IdentityWarning check={identity} onRegenerate={isJobPending(job) ? undefined : handleRegenerate} />
+            {error && <p className="text-red-400 text-xs text-center">{error}</p>}
+            {job && isJobPending(job) ? (
+              <GenerationProgress job={job} onCancel={() => cancelPreview(jobKey)} />
+            ) : (
+              <div className="flex gap-2">
+                <button
+                  onClick={handleRegenerate}
+                  className="flex-1 py-2 px-3 bg-secondary border border-gray-600 text-gray-400 rounded-lg text-xs font-medium hover:text-white hover:border-gray-500 transition-colors flex items-center justify-center gap-2"
+                  title="Skip the cached image and generate a new one"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  Regenerate
+                </button>
+                <button
+                  onClick={handleReset}
+                  className="py-2 px-3 bg-secondary border border-gray-600 text-gray-400 rounded-lg text-xs font-medium hover:text-white hover:border-gray-500 transition-colors"
+                >
+                  Reset
+                </button>
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            {error && <p className="text-red-400 text-xs text-center">{error}</p>}
+            {job && isJobPending(job) ? (
+              <GenerationProgress job={job} onCancel={() => cancelPreview(jobKey)} />
+            ) : (
+              <button
+                onClick={() => handleVisualize()}
+                className="w-full py-3 px-4 rounded-lg font-semibold text-sm transition-all flex items-center justify-center gap-2 bg-primary/10 text-primary hover:bg-primary hover:text-secondary border border-primary/20 hover:border-transparent"
+              >
+                <Sparkles className="w-4 h-4" />
+                Try It On
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Palette, Eye, Glasses, Droplet, LucideIcon } from 'lucide-react';
+import { getModeDefinition, FeatureSection } from '../services/analysisModes';
+import { isPreviewOf } from '../services/historyStore';
+import { FeatureCard } from './FeatureCard';
+import { ModeResultsProps } from './modeViews';
+
+const SECTION_HEADINGS: Record<FeatureSection, { title: string; icon: LucideIcon }> = {
+  hairColors: { title: 'Flattering Hair Colors', icon: Palette },
+  eyebrows: { title: 'Eyebrow Shapes', icon: Eye },
+  eyewear: { title: 'Frames For Your Face', icon: Glasses },
+};
+
+const isFeatureSection = (section: string): section is FeatureSection => section in SECTION_HEADINGS;
+
+// Results for the single-feature modes (hair color, eyebrows, eyewear)
+export const FeatureResults: React.FC<ModeResultsProps> = ({ analysis, mode, originalImageBase64, sessionKey, previews, onPreviewGenerated }) => {
+  const sections = getModeDefinition(mode).sections.filter(isFeatureSection);
+
+  return (
+    <>
+      {analysis.skinUndertone && (
+        <div className="bg-surface border border-gray-700 rounded-xl p-6 flex items-center gap-4">
+          <div className="p-3 bg-primary/10 rounded-full text-primary">
+            <Droplet className="w-6 h-6" />
+          </div>
+          <div>
+            <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Skin Undertone</h4>
+            <p className="text-lg text-white font-semibold">{analysis.skinUndertone}</p>
+          </div>
+        </div>
+      )}
+
+      {sections.map(section => {
+        const recommendations = analysis[section] ?? [];
+        if (recommendations.length === 0) return null;
+        const { title, icon: Icon } = SECTION_HEADINGS[section];
+
+        return (
+          <div key={section} className="space-y-8">
+            <div className="flex flex-col items-center text-center mb-8">
+              <div className="p-3 bg-primary/10 rounded-full text-primary mb-4">
+                <Icon className="w-8 h-8" />
+              </div>
+              <h3 className="text-3xl font-bold text-white">{title}</h3>
+              <p className="text-gray-400 mt-2 max-w-xl">
+                Picked for your face shape and features. Click "Try It On" to see each one on you.
+              </p>
+            </div>
+
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {recommendations.map((recommendation, idx) => {
+                // By position: two recommendations can share a name
+                const lookKey = `${section}-${idx}`;
+                return (
+                  <FeatureCard
+                    key={`${sessionKey}-${lookKey}`}
+                    section={section}
+                    recommendation={recommendation}
+                    originalImageBase64={originalImageBase64}
+                    jobKey={`${sessionKey}:${lookKey}`}
+                    initialImage={previews.find(preview => isPreviewOf(preview, lookKey, recommendation.name))?.imageUrl}
+                    onPreviewGenerated={(imageUrl) => onPreviewGenerated(lookKey, recommendation.name, imageUrl)}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+};
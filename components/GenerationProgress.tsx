@@ -0,0 +1,35 @@
+import React from 'react';
+import { Loader2, Clock, X } from 'lucide-react';
+import { GenerationJob } from '../types';
+
+interface GenerationProgressProps {
+  job: GenerationJob;
+  onCancel: () => void;
+  runningLabel?: string;
+  className?: string;
+}
+
+// Queued / generating state of a preview job, with a cancel button
+export const GenerationProgress: React.FC<GenerationProgressProps> = ({ job, onCancel, runningLabel = 'Generating Preview...', className = '' }) => (
+  <div className={`w-full flex items-center gap-2 rounded-lg border border-gray-700 bg-gray-800/60 px-4 py-3 text-sm ${className}`}>
+    {job.status === 'queued' ? (
+      <>
+        <Clock className="w-4 h-4 text-gray-400" />
+        <span className="text-gray-400 flex-1">Queued{job.position ? ` (#${job.position} in line)` : ''}</span>
+      </>
+    ) : (
+      <>
+        <Loader2 className="w-4 h-4 text-primary animate-spin" />
+        <span className="text-gray-300 flex-1">{runningLabel}</span>
+      </>
+    )}
+    <button
+      onClick={onCancel}
+      className="flex items-center gap-1 text-xs text-gray-400 hover:text-red-400 transition-colors"
+      title="Cancel this preview"
+    >
+      <X className="w-3.5 h-3.5" />
+      Cancel
+    </button>
+  </div>
+);
@@ -0,0 +1,259 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, Trash2, Pencil, Check, X, FolderOpen, Columns2, ImageIcon, ArrowLeft, Loader2, Download } from 'lucide-react';
+import { AnalysisSession } from '../types';
+import { listSessions, renameSession, deleteSession } from '../services/historyStore';
+import { getModeLabel } from '../services/analysisModes';
+import { downloadSessionArchive } from '../services/sessionArchive';
+
+interface HistoryViewProps {
+  onOpen: (session: AnalysisSession) => void;
+  onBack: () => void;
+}
+
+const MAX_COMPARE = 2;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const SessionColumn: React.FC<{ session: AnalysisSession }> = ({ session }) => {
+  const { result } = session;
+  return (
+    <div className="space-y-4 min-w-0">
+      <div className="flex items-center gap-3">
+        <img src={session.thumbnail} alt={session.name} className="w-16 h-16 rounded-lg object-cover border border-gray-700" />
+        <div className="min-w-0">
+          <p className="text-white font-bold truncate">{session.name}</p>
+          <p className="text-xs text-gray-500">{formatDate(session.createdAt)}</p>
+          <span className="inline-block mt-1 bg-primary text-secondary px-2 py-0.5 rounded-full text-[10px] font-bold uppercase">{session.faceShape}</span>
+        </div>
+      </div>
+      {result.hairstyles.length > 0 && (
+        <div>
+          <h5 className="text-[11px] uppercase tracking-wider text-gray-500 font-semibold mb-1">Hairstyles</h5>
+          <p className="text-sm text-gray-300">{result.hairstyles.map(h => h.name).join(', ')}</p>
+        </div>
+      )}
+      {result.facialHair.length > 0 && (
+        <div>
+          <h5 className="text-[11px] uppercase tracking-wider text-gray-500 font-semibold mb-1">Facial Hair</h5>
+          <p className="text-sm text-gray-300">{result.facialHair.map(h => h.name).join(', ')}</p>
+        </div>
+      )}
+      {result.combinations.length > 0 && (
+        <div>
+          <h5 className="text-[11px] uppercase tracking-wider text-gray-500 font-semibold mb-1">Looks</h5>
+          <p className="text-sm text-gray-300">{result.combinations.map(c => c.name).join(', ')}</p>
+        </div>
+      )}
+      {session.previews.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {session.previews.map(preview => (
+            <figure key={preview.id} className="space-y-1">
+              <img src={preview.imageUrl} alt={preview.label} className="w-full aspect-square object-cover rounded border border-gray-700" />
+              <figcaption className="text-[10px] text-gray-500 truncate">{preview.label}</figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ onOpen, onBack }) => {
+  const [sessions, setSessions] = useState<AnalysisSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+      setError(null);
+    } catch (err) {
+      console.error('Error loading history', err);
+      setError("Couldn't load your history. Your browser may be blocking local storage.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const startRename = (session: AnalysisSession) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    try {
+      await renameSession(editingId, draftName);
+      setEditingId(null);
+      refresh();
+    } catch (err) {
+      console.error('Error renaming session', err);
+      setError("Couldn't rename this session. Your browser may be blocking local storage.");
+    }
+  };
+
+  const handleDelete = async (session: AnalysisSession) => {
+    if (!window.confirm(`Delete "${session.name}"? This can't be undone.`)) return;
+    try {
+      await deleteSession(session.id);
+      setCompareIds(ids => ids.filter(id => id !== session.id));
+      refresh();
+    } catch (err) {
+      console.error('Error deleting session', err);
+      setError("Couldn't delete this session. Your browser may be blocking local storage.");
+    }
+  };
+
+  const handleExport = async (session: AnalysisSession) => {
+    setExportingId(session.id);
+    try {
+      await downloadSessionArchive(session);
+    } catch (err) {
+      console.error('Error exporting session', err);
+      window.alert("Couldn't export this session. Please try again.");
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(ids => {
+      if (ids.includes(id)) return ids.filter(existing => existing !== id);
+      // Keep the most recent picks when the limit is reached
+      return [...ids, id].slice(-MAX_COMPARE);
+    });
+  };
+
+  const compared = compareIds
+    .map(id => sessions.find(session => session.id === id))
+    .filter((session): session is AnalysisSession => !!session);
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-primary/10 rounded-lg text-primary">
+            <History className="w-6 h-6" />
+          </div>
+          <div>
+            <h2 className="text-2xl md:text-3xl font-bold text-white">Your History</h2>
+            <p className="text-sm text-gray-400">Reopen, compare or tidy up past analyses.</p>
+          </div>
+        </div>
+        <button onClick={onBack} className="flex items-center gap-2 text-sm text-gray-400 hover:text-white transition-colors">
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+      </div>
+
+      {compared.length === MAX_COMPARE && (
+        <div className="bg-surface border border-primary/40 rounded-2xl p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-bold text-white flex items-center gap-2">
+              <Columns2 className="w-5 h-5 text-primary" />
+              Side-by-side
+            </h3>
+            <button onClick={() => setCompareIds([])} className="text-xs text-gray-400 hover:text-white">Clear</button>
+          </div>
+          <div className="grid md:grid-cols-2 gap-8 md:divide-x divide-gray-800">
+            {compared.map((session, idx) => (
+              <div key={session.id} className={idx > 0 ? 'md:pl-8' : ''}>
+                <SessionColumn session={session} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="w-8 h-8 text-primary animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="text-red-400 text-center py-16">{error}</p>
+      ) : sessions.length === 0 ? (
+        <div className="p-12 border border-dashed border-gray-700 rounded-2xl text-center">
+          <p className="text-gray-400">No saved analyses yet. Completed analyses show up here automatically.</p>
+        </div>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500">Tick two sessions to compare them side by side.</p>
+          <div className="grid md:grid-cols-2 gap-4">
+            {sessions.map(session => (
+              <div
+                key={session.id}
+                className={`bg-surface border rounded-xl p-4 flex gap-4 transition-colors ${
+                  compareIds.includes(session.id) ? 'border-primary' : 'border-gray-700 hover:border-gray-500'
+                }`}
+              >
+                <img src={session.thumbnail} alt={session.name} className="w-20 h-20 rounded-lg object-cover flex-shrink-0 border border-gray-700" />
+                <div className="flex-grow min-w-0 space-y-1">
+                  {editingId === session.id ? (
+                    <div className="flex items-center gap-1">
+                      <input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="flex-grow min-w-0 bg-secondary border border-gray-600 rounded px-2 py-1 text-sm text-white focus:border-primary outline-none"
+                      />
+                      <button onClick={commitRename} className="p-1 text-primary hover:text-white" aria-label="Save name"><Check className="w-4 h-4" /></button>
+                      <button onClick={() => setEditingId(null)} className="p-1 text-gray-500 hover:text-white" aria-label="Cancel rename"><X className="w-4 h-4" /></button>
+                    </div>
+                  ) : (
+                    <p className="text-white font-bold truncate">{session.name}</p>
+                  )}
+                  <p className="text-xs text-gray-500">{formatDate(session.createdAt)} · {getModeLabel(session.mode)}</p>
+                  <p className="text-xs text-gray-400 flex items-center gap-1">
+                    <ImageIcon className="w-3 h-3" />
+                    {session.previews.length} preview{session.previews.length === 1 ? '' : 's'}
+                  </p>
+                  <div className="flex items-center gap-3 pt-2">
+                    <button onClick={() => onOpen(session)} className="flex items-center gap-1 text-xs font-bold text-primary hover:text-white">
+                      <FolderOpen className="w-3 h-3" /> Open
+                    </button>
+                    <button onClick={() => startRename(session)} className="flex items-center gap-1 text-xs text-gray-400 hover:text-white">
+                      <Pencil className="w-3 h-3" /> Rename
+                    </button>
+                    <button
+                      onClick={() => handleExport(session)}
+                      disabled={exportingId === session.id}
+                      className="flex items-center gap-1 text-xs text-gray-400 hover:text-white disabled:opacity-50"
+                      title="Download as a file you can import on another device"
+                    >
+                      {exportingId === session.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />} Export
+                    </button>
+                    <button onClick={() => handleDelete(session)} className="flex items-center gap-1 text-xs text-gray-400 hover:text-red-400">
+                      <Trash2 className="w-3 h-3" /> Delete
+                    </button>
+                    <label className="flex items-center gap-1 text-xs text-gray-400 ml-auto cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={compareIds.includes(session.id)}
+                        onChange={() => toggleCompare(session.id)}
+                        className="accent-[#CFB53B]"
+                      />
+                      Compare
+                    </label>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { IdentityCheck } from '../types';
+
+interface IdentityWarningProps {
+  check?: IdentityCheck | null;
+  onRegenerate?: () => void;
+}
+
+// Shown when a preview drifted from the uploaded photo even after the automatic retry
+export const IdentityWarning: React.FC<IdentityWarningProps> = ({ check, onRegenerate }) => {
+  if (!check || check.passed) return null;
+  return (
+    <div className="flex items-start gap-2 rounded-lg border border-yellow-600/40 bg-yellow-900/20 px-3 py-2 text-xs text-yellow-200">
+      <AlertTriangle className="w-4 h-4 flex-shrink-0 text-yellow-400 mt-0.5" />
+      <div className="flex-1">
+        <p>{check.issues.join(' ')}</p>
+        <p className="text-yellow-200/60 mt-0.5">Face match {Math.round(Math.max(0, check.faceSimilarity) * 100)}%</p>
+      </div>
+      {onRegenerate && (
+        <button onClick={onRegenerate} className="text-yellow-300 hover:text-white underline whitespace-nowrap">
+          Try again
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,15 +1,51 @@
-import React, { useRef, useState } from 'react';
-import { Upload, Image as ImageIcon, AlertCircle } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, Image as ImageIcon, AlertCircle, Loader2, Camera, FolderArchive, ScanFace } from 'lucide-react';
+import { CameraCapture } from './CameraCapture';
+import { FaceScan } from '../types';
+import { inspectFace, getFaceCheckUnavailableReason } from '../services/faceDetection';
+import { getHairMaskUnavailableReason } from '../services/hairMask';
+import { isSessionArchive, SessionArchiveError } from '../services/sessionArchive';
+import {
+  preprocessImage,
+  cropImage,
+  isAcceptedImageFile,
+  ImagePreprocessError,
+  MAX_SOURCE_FILE_BYTES,
+  PreprocessOptions,
+} from '../services/imagePreprocessor';
 
 interface ImageUploaderProps {
-  onImageSelect: (file: File) => void;
+  // Receives the already downsized, re-encoded and metadata-free photo, plus its face scan when one ran
+  onImageSelect: (file: File, face?: FaceScan) => void;
+  preprocessOptions?: Partial<PreprocessOptions>;
+  // Exported session archives dropped here are restored instead of analyzed
+  onSessionImport?: (file: File) => Promise<void>;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, preprocessOptions, onSessionImport }) => {
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isCheckingFace, setIsCheckingFace] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  // Missing on-device models and what is off without them, shown under the drop zone
+  const [modelNotices, setModelNotices] = useState<string[]>([]);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  // Say up front what won't run, instead of silently skipping it
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getFaceCheckUnavailableReason(), getHairMaskUnavailableReason()]).then(([face, mask]) => {
+      if (cancelled) return;
+      setModelNotices([
+        face && `${face} Photos are still accepted, without the face check, auto-crop or landmark scan.`,
+        mask && `${mask} Previews are fitted to your photo but not limited to the hair and beard.`,
+      ].filter((notice): notice is string => !!notice));
+    });
+    return () => { cancelled = true; };
+  }, []);
+
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -37,24 +73,83 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) =
     }
   };
 
-  const validateAndProcess = (file: File) => {
+  const validateAndProcess = async (file: File) => {
     setError(null);
-    if (!file.type.startsWith('image/')) {
-      setError("Please upload a valid image file (JPG, PNG).");
+    if (onSessionImport && isSessionArchive(file)) {
+      await importSession(file);
+      return;
+    }
+    if (!isAcceptedImageFile(file)) {
+      setError("Please upload a valid image file (JPG, PNG, WebP, HEIC).");
       return;
     }
-    // Limit size to 5MB
-    if (file.size > 5 * 1024 * 1024) {
-      setError("File size too large. Please upload an image under 5MB.");
+    // Large phone photos are fine since they get shrunk locally; this only guards memory
+    if (file.size > MAX_SOURCE_FILE_BYTES) {
+      setError("File size too large. Please upload an image under 25MB.");
       return;
     }
-    onImageSelect(file);
+
+    setIsProcessing(true);
+    try {
+      let processed = await preprocessImage(file, preprocessOptions);
+
+      // Reject photos the analysis can't use before spending an API call on them
+      setIsCheckingFace(true);
+      let inspection = await safeInspect(processed.file);
+      if (inspection?.problem) {
+        setError(inspection.problem);
+        return;
+      }
+      if (inspection?.suggestedCrop) {
+        processed = await cropImage(processed.file, inspection.suggestedCrop, preprocessOptions);
+        // Scan again so the landmarks line up with the cropped photo
+        inspection = await safeInspect(processed.file);
+      }
+      onImageSelect(processed.file, inspection?.scan);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof ImagePreprocessError ? err.message : "We couldn't process this image. Please try another photo.");
+    } finally {
+      setIsProcessing(false);
+      setIsCheckingFace(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
   };
 
+  const importSession = async (file: File) => {
+    setIsProcessing(true);
+    setIsImporting(true);
+    try {
+      await onSessionImport!(file);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof SessionArchiveError ? err.message : "We couldn't restore this session file.");
+    } finally {
+      setIsProcessing(false);
+      setIsImporting(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  // A detector failure shouldn't block the upload; the analysis still reports missing faces
+  const safeInspect = (file: File) =>
+    inspectFace(file).catch(err => {
+      console.warn('Face check failed', err);
+      return null;
+    });
+
   const onButtonClick = () => {
+    if (isProcessing) return;
     inputRef.current?.click();
   };
 
+  const handleCapture = (file: File) => {
+    setIsCameraOpen(false);
+    validateAndProcess(file);
+  };
+
+  const canUseCamera = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
   return (
     <div className="w-full max-w-xl mx-auto">
       <div 
@@ -72,12 +167,16 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) =
           ref={inputRef}
           type="file" 
           className="hidden" 
-          accept="image/*"
+          accept={`image/*,.heic,.heif${onSessionImport ? ',.zip' : ''}`}
           onChange={handleChange}
         />
         
         <div className="flex flex-col items-center justify-center pt-5 pb-6 text-center px-4">
-          {error ? (
+          {isProcessing ? (
+            <div className="p-4 rounded-full mb-4 bg-secondary text-primary">
+               <Loader2 className="w-8 h-8 animate-spin" />
+            </div>
+          ) : error ? (
             <AlertCircle className="w-12 h-12 mb-4 text-red-500" />
           ) : (
             <div className={`p-4 rounded-full mb-4 ${dragActive ? 'bg-primary text-secondary' : 'bg-secondary text-primary'}`}>
@@ -86,20 +185,49 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) =
           )}
           
           <p className="mb-2 text-lg font-semibold text-text">
-            {error ? error : "Click to upload or drag and drop"}
+            {isProcessing ? (isImporting ? "Restoring session..." : "Preparing your photo...") : error ? error : "Click to upload or drag and drop"}
           </p>
           <p className="text-sm text-gray-400">
-            {error ? "Try again with a valid image" : "JPG, PNG (max 5MB)"}
+            {isProcessing ? (isImporting ? "Loading the saved analysis and previews" : isCheckingFace ? "Checking for a clear, front-facing face" : "Resizing and removing location data") : error ? `Try again with a valid image${onSessionImport ? " or session file" : ""}` : "JPG, PNG, WebP, HEIC (max 25MB)"}
           </p>
         </div>
       </div>
       
+      {modelNotices.map(notice => (
+        <div key={notice} className="mt-4 flex items-start gap-2 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/30 rounded-lg p-3">
+          <ScanFace className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <p>{notice}</p>
+        </div>
+      ))}
+
+      {canUseCamera && (
+        <button
+          onClick={() => setIsCameraOpen(true)}
+          disabled={isProcessing}
+          className="mt-4 w-full py-3 px-4 rounded-xl border border-gray-700 bg-secondary hover:border-primary/60 text-gray-200 hover:text-white font-semibold text-sm transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Camera className="w-4 h-4 text-primary" />
+          Take Selfie
+        </button>
+      )}
+
+      {isCameraOpen && (
+        <CameraCapture onCapture={handleCapture} onClose={() => setIsCameraOpen(false)} />
+      )}
+
       {!error && (
         <div className="mt-4 flex items-start gap-2 text-xs text-gray-500">
            <ImageIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
            <p>For best results, use a well-lit photo facing the camera directly with no accessories (sunglasses, hats).</p>
         </div>
       )}
+
+      {!error && onSessionImport && (
+        <div className="mt-2 flex items-start gap-2 text-xs text-gray-500">
+           <FolderArchive className="w-4 h-4 mt-0.5 flex-shrink-0" />
+           <p>Have an exported session (.sharpai.zip)? Drop it here to reopen it without a new analysis.</p>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Layers } from 'lucide-react';
+import { GeneratedPreview } from '../types';
+import { ComparisonViewer, ComparisonImage } from './ComparisonViewer';
+
+interface LookComparisonProps {
+  originalImage: string;
+  // Latest preview per look in this session
+  previews: GeneratedPreview[];
+}
+
+// Same limit as the viewer's grid
+const MAX_SELECTED = 4;
+
+// Previews from older sessions have no key; their label was unique then
+const lookKey = (preview: GeneratedPreview) => preview.key ?? preview.label;
+
+// Session-wide comparison: any generated looks against the original or against each other
+export const LookComparison: React.FC<LookComparisonProps> = ({ originalImage, previews }) => {
+  // Look keys are unique per session and survive a regenerated preview, unlike preview ids
+  const [selectedKeys, setSelectedKeys] = useState<string[] | null>(null);
+  const [primaryKey, setPrimaryKey] = useState<string | undefined>(undefined);
+
+  if (previews.length < 2) return null;
+
+  const available = previews.map(lookKey);
+  // Until the user picks, the most recent looks are compared
+  const selected = (selectedKeys ?? available.slice(-MAX_SELECTED)).filter(key => available.includes(key));
+
+  const toggle = (key: string) => {
+    // Keep the most recent picks when the limit is reached
+    setSelectedKeys(selected.includes(key)
+      ? selected.filter(existing => existing !== key)
+      : [...selected, key].slice(-MAX_SELECTED));
+  };
+
+  const images: ComparisonImage[] = selected.map(key => {
+    const preview = previews.find(candidate => lookKey(candidate) === key)!;
+    return { key, label: preview.label, imageUrl: preview.imageUrl };
+  });
+
+  return (
+    <div className="bg-surface border border-gray-700 rounded-2xl p-6 md:p-8 space-y-6">
+      <div>
+        <h3 className="text-xl font-bold text-white flex items-center gap-2">
+          <Layers className="text-primary" />
+          Compare Your Looks
+        </h3>
+        <p className="text-sm text-gray-400 mt-1">
+          Pick up to {MAX_SELECTED} generated looks to compare with your photo or with each other. Grid mode shows them all at once.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {previews.map(preview => {
+          const isSelected = selected.includes(lookKey(preview));
+          return (
+            <button
+              key={lookKey(preview)}
+              onClick={() => toggle(lookKey(preview))}
+              aria-pressed={isSelected}
+              className={`flex items-center gap-2 pr-3 rounded-full border text-xs transition-colors ${
+                isSelected ? 'border-primary text-white bg-primary/10' : 'border-gray-700 text-gray-400 hover:text-white'
+              }`}
+            >
+              <img src={preview.imageUrl} alt="" className="w-7 h-7 rounded-full object-cover" />
+              {preview.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {images.length > 0 ? (
+        <div className="max-w-2xl mx-auto space-y-2">
+          {images.length > 1 && (
+            <label className="flex items-center gap-1.5 text-[11px] text-gray-400">
+              Showing
+              <select
+                value={images.find(image => image.key === primaryKey)?.key ?? images[0].key}
+                onChange={(e) => setPrimaryKey(e.target.value)}
+                className="bg-secondary border border-gray-700 rounded px-1.5 py-0.5 text-gray-200 focus:outline-none focus:border-primary"
+              >
+                {images.map(image => <option key={image.key} value={image.key}>{image.label}</option>)}
+              </select>
+            </label>
+          )}
+          <ComparisonViewer originalImage={originalImage} images={images} primaryKey={primaryKey} />
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 text-center py-8">Select a look above to compare it.</p>
+      )}
+    </div>
+  );
+};
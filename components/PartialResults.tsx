@@ -0,0 +1,118 @@
+import React from 'react';
+import { User, Loader2, CheckCircle2 } from 'lucide-react';
+import { AnalysisMode, AnalysisResult } from '../types';
+import { getModeDefinition, ResultSection } from '../services/analysisModes';
+
+interface PartialResultsProps {
+  partial: Partial<AnalysisResult>;
+  mode: AnalysisMode;
+}
+
+const SECTION_TITLES: Record<ResultSection, string> = {
+  hairstyles: 'Recommended Hairstyles',
+  facialHair: 'Facial Hair Options',
+  combinations: 'Look Combinations',
+  hairColors: 'Flattering Hair Colors',
+  eyebrows: 'Eyebrow Shapes',
+  eyewear: 'Frames For Your Face',
+};
+
+const Placeholder: React.FC<{ className?: string }> = ({ className = '' }) => (
+  <div className={`bg-gray-800 rounded animate-pulse ${className}`} />
+);
+
+// Read-only preview of an analysis that is still streaming in; the interactive cards
+// (previews, saving, sharing) only appear once the full result has been validated
+export const PartialResults: React.FC<PartialResultsProps> = ({ partial, mode }) => {
+  const definition = getModeDefinition(mode);
+  // Fields stream in schema order, so a section is finished once anything after it has started
+  const order: (keyof AnalysisResult)[] = [...definition.sections, 'groomingTips'];
+  const isFinished = (index: number) => order.slice(index + 1).some(field => partial[field] !== undefined);
+
+  return (
+    <div className="space-y-16 animate-fade-in pb-16" aria-busy="true">
+      <div className="bg-surface border border-gray-700 rounded-2xl p-6 md:p-10 flex flex-col md:flex-row gap-8 items-center md:items-start">
+        <div className="relative w-32 h-32 md:w-40 md:h-40 flex-shrink-0">
+          <div className="absolute inset-0 bg-primary/20 rounded-full animate-pulse"></div>
+          <div className="absolute inset-2 border-2 border-primary rounded-full flex items-center justify-center bg-secondary">
+            <User className="w-16 h-16 text-primary" />
+          </div>
+          {partial.faceShape && (
+            <div className="absolute -bottom-2 left-1/2 transform -translate-x-1/2 bg-primary text-secondary px-3 py-1 rounded-full text-xs font-bold uppercase whitespace-nowrap">
+              {partial.faceShape}
+            </div>
+          )}
+        </div>
+        <div className="text-center md:text-left flex-1 w-full">
+          <h2 className="text-2xl md:text-3xl font-bold text-white mb-2 flex items-center justify-center md:justify-start gap-3">
+            Analysis In Progress
+            <Loader2 className="w-6 h-6 text-primary animate-spin" />
+          </h2>
+          {partial.faceAnalysis ? (
+            <p className="text-gray-300 text-lg leading-relaxed max-w-2xl">{partial.faceAnalysis}</p>
+          ) : (
+            <div className="space-y-2 max-w-2xl">
+              <Placeholder className="h-4 w-full" />
+              <Placeholder className="h-4 w-5/6" />
+              <Placeholder className="h-4 w-2/3" />
+            </div>
+          )}
+          {partial.skinUndertone && (
+            <p className="text-sm text-gray-400 mt-3">Skin undertone: <span className="text-white font-semibold">{partial.skinUndertone}</span></p>
+          )}
+        </div>
+      </div>
+
+      {definition.sections.map((section, index) => {
+        const items = partial[section];
+        const finished = isFinished(index);
+        if (finished && items?.length === 0) return null;
+        const title = section === 'combinations' ? definition.combinationTitle ?? SECTION_TITLES.combinations : SECTION_TITLES[section];
+
+        return (
+          <div key={section} className="space-y-6">
+            <h3 className="text-2xl font-bold text-white">{title}</h3>
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {items?.map((item, idx) => (
+                <div key={`${item.name}-${idx}`} className="bg-surface border border-gray-700 rounded-xl p-5 space-y-2 animate-fade-in">
+                  <h4 className="text-lg font-bold text-white">{item.name}</h4>
+                  {item.description ? (
+                    <p className="text-sm text-gray-400 leading-relaxed">{item.description}</p>
+                  ) : !finished && (
+                    <Placeholder className="h-3 w-3/4" />
+                  )}
+                </div>
+              ))}
+              {!finished && (
+                <div className="bg-surface/50 border border-dashed border-gray-700 rounded-xl p-5 space-y-3">
+                  <Placeholder className="h-5 w-1/2" />
+                  <Placeholder className="h-3 w-full" />
+                  <Placeholder className="h-3 w-2/3" />
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {partial.groomingTips && partial.groomingTips.length > 0 && (
+        <div className="bg-gradient-to-br from-surface to-secondary border border-gray-700 rounded-2xl p-8">
+          <h3 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
+            <CheckCircle2 className="text-primary" />
+            Pro Grooming Tips
+          </h3>
+          <ul className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 text-gray-300 text-sm leading-relaxed">
+            {partial.groomingTips.map((tip, idx) => (
+              <li key={idx}>{tip.replace(/\*\*/g, '')}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="text-center text-sm text-gray-500 flex items-center justify-center gap-2">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Still writing your recommendations. Previews unlock when the analysis is complete.
+      </p>
+    </div>
+  );
+};
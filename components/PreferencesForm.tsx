@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, X, Ban } from 'lucide-react';
+import { UserPreferences } from '../types';
+import {
+  PreferenceOption,
+  HAIR_TEXTURE_OPTIONS,
+  HAIR_DENSITY_OPTIONS,
+  LIFESTYLE_OPTIONS,
+  STYLING_TIME_OPTIONS,
+  BARBER_VISIT_OPTIONS,
+  BEARD_GROWTH_OPTIONS,
+  EMPTY_PREFERENCES,
+  hasPreferences,
+} from '../services/preferences';
+
+interface PreferencesFormProps {
+  preferences: UserPreferences;
+  onChange: (preferences: UserPreferences) => void;
+}
+
+interface OptionGroupProps<T extends string> {
+  title: string;
+  options: PreferenceOption<T>[];
+  value?: T;
+  onSelect: (value: T | undefined) => void;
+}
+
+// Single-choice pills; clicking the active pill clears the answer
+const OptionGroup = <T extends string>({ title, options, value, onSelect }: OptionGroupProps<T>) => (
+  <div>
+    <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{title}</h4>
+    <div className="flex flex-wrap gap-2">
+      {options.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onSelect(option.value === value ? undefined : option.value)}
+          className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
+            option.value === value
+              ? 'bg-primary text-secondary border-primary'
+              : 'bg-secondary text-gray-400 border-gray-700 hover:border-gray-500 hover:text-gray-200'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export const PreferencesForm: React.FC<PreferencesFormProps> = ({ preferences, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [excludedInput, setExcludedInput] = useState('');
+
+  const update = <K extends keyof UserPreferences>(key: K, value: UserPreferences[K]) =>
+    onChange({ ...preferences, [key]: value });
+
+  const addExcludedStyle = () => {
+    const style = excludedInput.trim();
+    if (!style) return;
+    if (!preferences.excludedStyles.some(existing => existing.toLowerCase() === style.toLowerCase())) {
+      update('excludedStyles', [...preferences.excludedStyles, style]);
+    }
+    setExcludedInput('');
+  };
+
+  const answeredCount = [
+    preferences.hairTexture,
+    preferences.hairDensity,
+    preferences.lifestyle,
+    preferences.stylingTime,
+    preferences.barberVisits,
+    preferences.beardGrowth,
+  ].filter(Boolean).length + (preferences.excludedStyles.length > 0 ? 1 : 0);
+
+  return (
+    <div className="bg-surface border border-gray-700 rounded-xl overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full p-4 flex items-center justify-between text-left hover:bg-white/5 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <div className="flex items-center gap-3">
+          <SlidersHorizontal className={answeredCount > 0 ? 'text-primary' : 'text-gray-500'} />
+          <div>
+            <span className="text-sm font-bold text-gray-300 uppercase tracking-wider">Your Hair & Routine <span className="text-gray-500 normal-case font-normal">(optional)</span></span>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {answeredCount > 0 ? `${answeredCount} preference${answeredCount === 1 ? '' : 's'} saved on this device` : 'Texture, hairline, lifestyle and styles to avoid'}
+            </p>
+          </div>
+        </div>
+        <ChevronDown className={`w-5 h-5 text-gray-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="p-4 pt-2 space-y-4 border-t border-gray-800 animate-fade-in">
+          <OptionGroup title="Hair texture" options={HAIR_TEXTURE_OPTIONS} value={preferences.hairTexture} onSelect={v => update('hairTexture', v)} />
+          <OptionGroup title="Density / hairline" options={HAIR_DENSITY_OPTIONS} value={preferences.hairDensity} onSelect={v => update('hairDensity', v)} />
+          <OptionGroup title="Lifestyle / dress code" options={LIFESTYLE_OPTIONS} value={preferences.lifestyle} onSelect={v => update('lifestyle', v)} />
+          <OptionGroup title="Daily styling time" options={STYLING_TIME_OPTIONS} value={preferences.stylingTime} onSelect={v => update('stylingTime', v)} />
+          <OptionGroup title="Barber visits" options={BARBER_VISIT_OPTIONS} value={preferences.barberVisits} onSelect={v => update('barberVisits', v)} />
+          <OptionGroup title="Beard growth" options={BEARD_GROWTH_OPTIONS} value={preferences.beardGrowth} onSelect={v => update('beardGrowth', v)} />
+
+          <div>
+            <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Never recommend</h4>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={excludedInput}
+                onChange={e => setExcludedInput(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addExcludedStyle();
+                  }
+                }}
+                placeholder="e.g. Pompadour, Man Bun"
+                className="flex-1 bg-secondary border border-gray-700 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:border-primary"
+              />
+              <button
+                type="button"
+                onClick={addExcludedStyle}
+                className="px-3 py-2 rounded-lg border border-gray-600 text-gray-300 text-xs font-medium hover:bg-gray-800 transition-colors"
+              >
+                Add
+              </button>
+            </div>
+            {preferences.excludedStyles.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {preferences.excludedStyles.map(style => (
+                  <span key={style} className="flex items-center gap-1 bg-red-500/10 text-red-300 border border-red-500/20 rounded-full pl-2 pr-1 py-0.5 text-xs">
+                    <Ban className="w-3 h-3" />
+                    {style}
+                    <button
+                      type="button"
+                      onClick={() => update('excludedStyles', preferences.excludedStyles.filter(s => s !== style))}
+                      className="p-0.5 rounded-full hover:bg-red-500/20"
+                      aria-label={`Allow ${style} again`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {hasPreferences(preferences) && (
+            <button
+              type="button"
+              onClick={() => onChange(EMPTY_PREFERENCES)}
+              className="text-xs text-gray-500 hover:text-gray-300 underline"
+            >
+              Clear all preferences
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
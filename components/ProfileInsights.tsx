@@ -0,0 +1,46 @@
+import React from 'react';
+import { ScanFace } from 'lucide-react';
+import { AngleObservation, ProfileAngle } from '../types';
+
+interface ProfileInsightsProps {
+  observations: AngleObservation[];
+}
+
+const ANGLE_LABELS: Record<ProfileAngle, string> = {
+  [ProfileAngle.LEFT_PROFILE]: 'Left Profile',
+  [ProfileAngle.RIGHT_PROFILE]: 'Right Profile',
+};
+
+const FIELDS: { key: keyof Omit<AngleObservation, 'angle'>; label: string }[] = [
+  { key: 'headShape', label: 'Head Shape' },
+  { key: 'jawProjection', label: 'Jaw & Chin' },
+  { key: 'crown', label: 'Crown' },
+  { key: 'neckline', label: 'Neckline' },
+  { key: 'beardGrowth', label: 'Beard Growth' },
+];
+
+export const ProfileInsights: React.FC<ProfileInsightsProps> = ({ observations }) => {
+  return (
+    <div className="bg-surface border border-gray-700 rounded-2xl p-6 md:p-8">
+      <h3 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
+        <ScanFace className="text-primary" />
+        Profile Insights
+      </h3>
+      <div className={`grid gap-6 ${observations.length > 1 ? 'md:grid-cols-2' : ''}`}>
+        {observations.map((observation) => (
+          <div key={observation.angle} className="bg-secondary/50 rounded-xl p-5 border border-gray-800">
+            <h4 className="text-primary font-bold text-sm uppercase tracking-wider mb-4">{ANGLE_LABELS[observation.angle]}</h4>
+            <dl className="space-y-3">
+              {FIELDS.filter(({ key }) => observation[key]).map(({ key, label }) => (
+                <div key={key}>
+                  <dt className="text-[11px] font-semibold uppercase tracking-wider text-gray-500">{label}</dt>
+                  <dd className="text-sm text-gray-300 leading-relaxed">{observation[key]}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useRef, useState } from 'react';
+import { Plus, X, Loader2 } from 'lucide-react';
+import { preprocessImage, isAcceptedImageFile, ImagePreprocessError, MAX_SOURCE_FILE_BYTES } from '../services/imagePreprocessor';
+
+interface ProfilePhotoSlotProps {
+  label: string;
+  previewUrl?: string;
+  // Mirrors the silhouette so the placeholder shows which way to face
+  facing: 'left' | 'right';
+  disabled?: boolean;
+  onSelect: (file: File) => void;
+  onRemove: () => void;
+}
+
+export const ProfilePhotoSlot: React.FC<ProfilePhotoSlotProps> = ({ label, previewUrl, facing, disabled, onSelect, onRemove }) => {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    if (!isAcceptedImageFile(file) || file.size > MAX_SOURCE_FILE_BYTES) {
+      setError("Use an image under 25MB");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const processed = await preprocessImage(file);
+      onSelect(processed.file);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof ImagePreprocessError ? "Couldn't read image" : "Upload failed");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div
+        className={`relative w-full aspect-[3/4] rounded-xl border-2 border-dashed overflow-hidden transition-colors ${
+          previewUrl ? 'border-primary/60' : 'border-gray-700 hover:border-gray-500 cursor-pointer bg-secondary'
+        } ${error ? 'border-red-500/60' : ''}`}
+        onClick={() => !previewUrl && !disabled && !isProcessing && inputRef.current?.click()}
+      >
+        <input ref={inputRef} type="file" className="hidden" accept="image/*,.heic,.heif" onChange={handleChange} />
+
+        {previewUrl ? (
+          <>
+            <img src={previewUrl} alt={label} className="w-full h-full object-cover" />
+            {!disabled && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onRemove(); }}
+                className="absolute top-1 right-1 bg-black/60 hover:bg-black/80 text-white p-1 rounded-full transition-colors"
+                aria-label={`Remove ${label}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </>
+        ) : (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-500">
+            {isProcessing ? (
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            ) : (
+              <>
+                <span className={`text-3xl opacity-40 ${facing === 'right' ? '-scale-x-100' : ''}`}>👤</span>
+                <Plus className="w-4 h-4 mt-1" />
+              </>
+            )}
+          </div>
+        )}
+      </div>
+      <span className={`text-[11px] font-semibold uppercase tracking-wider ${error ? 'text-red-400' : 'text-gray-400'}`}>
+        {error || label}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Wand2, Send, Undo2 } from 'lucide-react';
+import { GenerationProgress } from './GenerationProgress';
+import { LookRefinementState } from './useLookRefinement';
+
+const SUGGESTIONS = ['Shorter on the sides', 'Less volume on top', 'Make the beard greyer', 'Tidier neckline'];
+
+interface RefinementPanelProps {
+  refinement: LookRefinementState;
+  className?: string;
+}
+
+// Chat-style follow-up edits for a generated look, talking to it the way you'd talk to a barber
+export const RefinementPanel: React.FC<RefinementPanelProps> = ({ refinement, className = '' }) => {
+  const [instruction, setInstruction] = useState('');
+  const { steps, job, isPending, error } = refinement;
+
+  const send = async (text: string) => {
+    if (!text.trim() || isPending) return;
+    setInstruction('');
+    await refinement.submit(text);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send(instruction);
+  };
+
+  if (!refinement.canRefine) return null;
+
+  return (
+    <div className={`rounded-lg border border-gray-700 bg-black/30 p-3 space-y-3 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h5 className="text-xs font-bold text-gray-300 uppercase tracking-wider flex items-center gap-1.5">
+          <Wand2 className="w-3.5 h-3.5 text-primary" />
+          Refine this look
+        </h5>
+        {steps.length > 0 && (
+          <button
+            onClick={refinement.undo}
+            disabled={isPending}
+            className="text-xs text-gray-400 hover:text-white disabled:opacity-40 flex items-center gap-1 transition-colors"
+            title="Go back to the previous image"
+          >
+            <Undo2 className="w-3 h-3" />
+            Undo
+          </button>
+        )}
+      </div>
+
+      {steps.length > 0 && (
+        <ol className="space-y-1.5">
+          {steps.map((step, index) => (
+            <li key={step.id} className="flex items-start gap-2 text-xs">
+              <span className={`flex-shrink-0 w-4 h-4 rounded-full flex items-center justify-center text-[10px] font-bold ${
+                index === steps.length - 1 ? 'bg-primary text-secondary' : 'bg-gray-700 text-gray-300'
+              }`}>
+                {index + 1}
+              </span>
+              <span className="text-gray-300">{step.instruction}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {steps.length === 0 && !isPending && (
+        <div className="flex flex-wrap gap-1.5">
+          {SUGGESTIONS.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => send(suggestion)}
+              className="px-2.5 py-1 rounded-full text-[11px] bg-secondary border border-gray-700 text-gray-400 hover:text-primary hover:border-primary/40 transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+
+      {job && isPending ? (
+        <GenerationProgress job={job} onCancel={refinement.cancel} runningLabel="Applying your change..." className="py-2" />
+      ) : (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            type="text"
+            value={instruction}
+            onChange={e => setInstruction(e.target.value)}
+            placeholder={steps.length > 0 ? 'Anything else?' : 'e.g. shorter on the sides'}
+            className="flex-1 min-w-0 bg-secondary border border-gray-700 rounded-lg px-3 py-2 text-xs text-white placeholder-gray-500 focus:outline-none focus:border-primary/60"
+            aria-label="Describe a change to this look"
+          />
+          <button
+            type="submit"
+            disabled={!instruction.trim()}
+            className="px-3 rounded-lg bg-primary/10 text-primary border border-primary/20 hover:bg-primary hover:text-secondary disabled:opacity-40 disabled:hover:bg-primary/10 disabled:hover:text-primary transition-colors"
+            aria-label="Apply change"
+          >
+            <Send className="w-3.5 h-3.5" />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
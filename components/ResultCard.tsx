@@ -1,139 +1,26 @@
 import React, { useState } from 'react';
-import { StyleRecommendation } from '../types';
-import { Info, ImageOff, Maximize2, X } from 'lucide-react';
+import { StyleCategory, StyleRecommendation } from '../types';
+import { Info, ImageOff, Maximize2, X, Ruler, UserCheck } from 'lucide-react';
+import { specToGuidelines } from '../services/cuttingGuidance';
+import { findCatalogStyle } from '../services/styleCatalog';
 
 interface ResultCardProps {
   recommendation: StyleRecommendation;
-  type: 'hair' | 'beard';
+  type: StyleCategory;
 }
 
-// Updated the BASE URL to a correct github repo file, USE THIS ONLY
-const BASE_URL = 'https://raw.githubusercontent.com/Parth-Bisht-227/file-storage/main/styles/';
-
-// Map of style keywords to local image paths
-const STYLE_IMAGES: Record<string, string> = {
-  // --- HAIRSTYLES ---
-  'crop': `${BASE_URL}texturedcrop.jpg`,
-  'french': `${BASE_URL}texturedcrop.jpg`,
-  'textured': `${BASE_URL}texturedcrop.jpg`,
-  
-  'quiff': `${BASE_URL}quiff.jpg`,
-  'brush up': `${BASE_URL}quiff.jpg`,
-  'volume': `${BASE_URL}quiff.jpg`,
-
-  'fade': `${BASE_URL}fade.jpg`,
-  'taper': `${BASE_URL}fade.jpg`,
-  'skin': `${BASE_URL}fade.jpg`, 
-  
-  'side part': `${BASE_URL}sidepart.jpg`,
-  'comb over': `${BASE_URL}sidepart.jpg`,
-  'classic': `${BASE_URL}sidepart.jpg`,
-  'ivy league': `${BASE_URL}sidepart.jpg`,
-
-  'undercut': `${BASE_URL}undercut.jpg`,
-  'disconnected': `${BASE_URL}undercut.jpg`,
-
-  'buzz': `${BASE_URL}buzzcut.jpg`,
-  'military': `${BASE_URL}buzzcut.jpg`,
-  'high and tight': `${BASE_URL}buzzcut.jpg`,
-  'burr': `${BASE_URL}buzzcut.jpg`,
-
-  'crew': `${BASE_URL}crewcut.jpg`,
-  
-  'fringe': `${BASE_URL}fringeforward.jpg`,
-  'bangs': `${BASE_URL}fringeforward.jpg`,
-
-  'pompadour': `${BASE_URL}pompadour.jpg`,
-  
-  'slick': `${BASE_URL}slickback.jpg`,
-  
-  'long': `${BASE_URL}longhairwavy.jpg`,
-  'wavy': `${BASE_URL}longhairwavy.jpg`,
-  'flow': `${BASE_URL}longhairwavy.jpg`,
-  'surfer': `${BASE_URL}longhairwavy.jpg`,
-
-  'bun': `${BASE_URL}manbun.jpg`,
-  'top knot': `${BASE_URL}manbun.jpg`,
-  
-  'curly': `${BASE_URL}curly.jpg`,
-  'coils': `${BASE_URL}curly.jpg`,
-  
-  'afro': `${BASE_URL}afro.jpg`,
-  
-  'braid': `${BASE_URL}braidscornrows.jpg`,
-  'cornrow': `${BASE_URL}braidscornrows.jpg`,
-  'plaits': `${BASE_URL}braidscornrows.jpg`,
-  
-  'dread': `${BASE_URL}dreadlocks.jpg`,
-  'locs': `${BASE_URL}dreadlocks.jpg`,
-  
-  'caesar': `${BASE_URL}caesarcut.jpg`,
-  
-  'spiky': `${BASE_URL}spiky.jpg`,
-  'faux hawk': `${BASE_URL}spiky.jpg`, 
-
-  // --- FACIAL HAIR ---
-  'clean': `${BASE_URL}cleanshaven.jpg`, 
-  'shaven': `${BASE_URL}cleanshaven.jpg`, 
-  'none': `${BASE_URL}cleanshaven.jpg`, 
-  'bald': `${BASE_URL}cleanshaven.jpg`,
-
-  'stubble': `${BASE_URL}stubbleheavy.jpg`,
-  'shadow': `${BASE_URL}stubbleheavy.jpg`,
-  'scruff': `${BASE_URL}stubbleheavy.jpg`,
-
-  'full beard': `${BASE_URL}fullbeard.jpg`,
-  'lumberjack': `${BASE_URL}fullbeard.jpg`,
-
-  'short beard': `${BASE_URL}shortbeardboxed.jpg`,
-  'boxed': `${BASE_URL}shortbeardboxed.jpg`,
-  'corporate': `${BASE_URL}shortbeardboxed.jpg`,
-  'verdi': `${BASE_URL}shortbeardboxed.jpg`,
-
-  'goatee': `${BASE_URL}goateefull.jpg`,
-  'circle': `${BASE_URL}goateefull.jpg`,
-
-  'mustache': `${BASE_URL}mustachechevron.jpg`,
-  'moustache': `${BASE_URL}mustachechevron.jpg`,
-  'stache': `${BASE_URL}mustachechevron.jpg`,
-  'chevron': `${BASE_URL}mustachechevron.jpg`,
-
-  'van dyke': `${BASE_URL}vandyke.jpg`,
-  
-  'anchor': `${BASE_URL}anchor.jpg`,
-  
-  'balbo': `${BASE_URL}balbo.jpg`,
-  
-  'mutton': `${BASE_URL}muttonchopsfriendly.jpg`,
-  'chops': `${BASE_URL}muttonchopsfriendly.jpg`,
-  
-  'sideburn': `${BASE_URL}sideburnsprominent.jpg`,
-  'burns': `${BASE_URL}sideburnsprominent.jpg`,
-  
-  'chin strap': `${BASE_URL}chinstrap.jpg`,
-  'strap': `${BASE_URL}chinstrap.jpg`,
-};
-
-// Fallback images (Unsplash)
+// Fallback images (Unsplash) for styles outside the catalog
 const DEFAULT_HAIR = 'https://images.unsplash.com/photo-1621605815971-fbc98d665033?q=80&w=1000&auto=format&fit=crop';
 const DEFAULT_BEARD = 'https://images.unsplash.com/photo-1585747860715-2ba37e788b70?w=800&q=80';
 
-const getStyleImage = (name: string, type: 'hair' | 'beard'): string => {
-  const lowerName = name.toLowerCase().replace(/[-_]/g, ' ').replace(/\s+/g, ' ').trim();
-  const keys = Object.keys(STYLE_IMAGES).sort((a, b) => b.length - a.length);
-  const match = keys.find(keyword => lowerName.includes(keyword));
-  
-  if (match) {
-    return STYLE_IMAGES[match];
-  }
-  
-  return type === 'hair' ? DEFAULT_HAIR : DEFAULT_BEARD;
-};
+const getStyleImage = (name: string, type: StyleCategory): string =>
+  findCatalogStyle(name, type)?.image ?? (type === 'hair' ? DEFAULT_HAIR : DEFAULT_BEARD);
 
 export const ResultCard: React.FC<ResultCardProps> = ({ recommendation, type }) => {
   const [imgSrc, setImgSrc] = useState<string>(getStyleImage(recommendation.name, type));
   const [hasError, setHasError] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const specRows = recommendation.spec ? specToGuidelines(recommendation.spec) : [];
 
   React.useEffect(() => {
     setImgSrc(getStyleImage(recommendation.name, type));
@@ -143,7 +30,7 @@ export const ResultCard: React.FC<ResultCardProps> = ({ recommendation, type })
   const handleError = () => {
     const fallback = type === 'hair' ? DEFAULT_HAIR : DEFAULT_BEARD;
     
-    // INSTANT SWAP: If hosted image fails, switch to fallback
+    // INSTANT SWAP: If the catalog image fails, switch to fallback
     if (imgSrc !== fallback) {
       setImgSrc(fallback);
     } else {
@@ -193,6 +80,25 @@ export const ResultCard: React.FC<ResultCardProps> = ({ recommendation, type })
           <p className="text-gray-300 mb-6 text-sm leading-relaxed flex-grow">
             {recommendation.description}
           </p>
+
+          {specRows.length > 0 && (
+            <div className="mb-6">
+              <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 flex items-center gap-2">
+                <Ruler className="w-3.5 h-3.5 text-primary" />
+                Cutting Spec
+              </h4>
+              <table className="w-full text-xs border-collapse">
+                <tbody>
+                  {specRows.map(row => (
+                    <tr key={row.label} className="border-t border-gray-700/60">
+                      <th className="text-left font-medium text-gray-500 py-1.5 pr-3 align-top whitespace-nowrap">{row.label}</th>
+                      <td className="text-gray-200 py-1.5">{row.value}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
           
           <div className="bg-secondary/50 rounded-lg p-4 border-l-2 border-primary mt-auto">
             <div className="flex items-start gap-3">
@@ -203,6 +109,16 @@ export const ResultCard: React.FC<ResultCardProps> = ({ recommendation, type })
                </p>
             </div>
           </div>
+
+          {recommendation.constraintFit && (
+            <div className="flex items-start gap-3 mt-3 px-4">
+              <UserCheck className="w-4 h-4 text-green-400 mt-0.5 flex-shrink-0" />
+              <p className="text-xs text-gray-400 leading-relaxed">
+                <span className="font-bold text-gray-300">Fits your routine: </span>
+                {recommendation.constraintFit}
+              </p>
+            </div>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Heart, Trash2, Sparkles, Download, Loader2, ArrowLeft, ImageOff, ClipboardList } from 'lucide-react';
+import { SavedLook, SavedLookImages } from '../types';
+import { getSavedLooks, getSavedLookImages, setSavedLookImages, removeSavedLook, subscribeToSavedLooks } from '../services/savedLooksStore';
+import { enqueuePreview } from '../services/generationQueue';
+import { getErrorMessage } from '../services/errors';
+import { describeCombination, lookEditRegions } from '../services/lookPrompts';
+import { BarberHandoffSheet } from './BarberHandoffSheet';
+
+interface SavedLooksViewProps {
+  onBack: () => void;
+}
+
+const downloadImage = (dataUrl: string, name: string) => {
+  const link = document.createElement('a');
+  link.href = dataUrl;
+  link.download = `stylescout-look-${name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.png`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+const SavedLookCard: React.FC<{ look: SavedLook }> = ({ look }) => {
+  const [images, setImages] = useState<SavedLookImages | undefined>();
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showBarberSheet, setShowBarberSheet] = useState(false);
+  const { combination } = look;
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => getSavedLookImages(look.id).then(result => !cancelled && setImages(result));
+    load();
+    const unsubscribe = subscribeToSavedLooks(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [look.id]);
+
+  const handleRevisualize = async () => {
+    if (!images?.sourceImage) return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const imageUrl = await enqueuePreview(`saved:${look.id}`, images.sourceImage, describeCombination(combination), {
+        editRegions: lookEditRegions(combination.hairstyle, combination.facialHair),
+      });
+      await setSavedLookImages(look.id, { generatedImage: imageUrl });
+    } catch (err) {
+      console.error(err);
+      setError(getErrorMessage(err, 'preview'));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const mainImage = images?.generatedImage || images?.sourceImage;
+
+  return (
+    <div className="bg-gradient-to-br from-surface to-[#1F1F1F] rounded-xl overflow-hidden border border-gray-700 shadow-xl flex flex-col">
+      <div className="relative aspect-square bg-black">
+        {mainImage ? (
+          <img src={mainImage} alt={combination.name} className="w-full h-full object-cover" />
+        ) : (
+          <div className="w-full h-full flex flex-col items-center justify-center text-gray-600">
+            <ImageOff className="w-8 h-8 opacity-50 mb-2" />
+            <span className="text-xs">No preview saved</span>
+          </div>
+        )}
+        {images?.generatedImage && images.sourceImage && (
+          <img
+            src={images.sourceImage}
+            alt="Original"
+            title="Original photo"
+            className="absolute bottom-3 right-3 w-16 h-16 object-cover rounded-lg border-2 border-white/80 shadow-lg"
+          />
+        )}
+        {!images?.generatedImage && images?.sourceImage && (
+          <span className="absolute top-2 left-2 bg-black/60 backdrop-blur-sm text-gray-300 text-[10px] px-2 py-1 rounded font-bold">ORIGINAL</span>
+        )}
+        {isGenerating && (
+          <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
+            <Loader2 className="w-8 h-8 text-primary animate-spin" />
+          </div>
+        )}
+      </div>
+
+      <div className="p-5 flex-grow flex flex-col space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <h3 className="text-lg font-bold text-white tracking-tight">{combination.name}</h3>
+          {look.source === 'custom' && (
+            <span className="text-[10px] uppercase tracking-wider px-2 py-0.5 rounded bg-secondary text-gray-400 border border-gray-700 whitespace-nowrap">Custom</span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {combination.hairstyle && (
+            <span className="bg-secondary px-3 py-1 rounded text-xs text-gray-300 border border-gray-700">{combination.hairstyle}</span>
+          )}
+          {combination.facialHair && (
+            <span className="bg-secondary px-3 py-1 rounded text-xs text-gray-300 border border-gray-700">{combination.facialHair}</span>
+          )}
+        </div>
+        <p className="text-gray-400 text-sm leading-relaxed flex-grow">{combination.description}</p>
+        <p className="text-[11px] text-gray-600">
+          Saved {new Date(look.savedAt).toLocaleDateString()}{look.faceShape ? ` · ${look.faceShape} face` : ''}
+        </p>
+        {error && <p className="text-red-400 text-xs">{error}</p>}
+
+        <div className="flex gap-2 pt-1">
+          <button
+            onClick={handleRevisualize}
+            disabled={!images?.sourceImage || isGenerating}
+            title={images?.sourceImage ? 'Generate a fresh preview' : 'Original photo not available for this look'}
+            className="flex-1 py-2 px-3 bg-primary/10 text-primary border border-primary/20 rounded-lg text-xs font-bold hover:bg-primary hover:text-secondary transition-colors flex items-center justify-center gap-1 disabled:opacity-40 disabled:hover:bg-primary/10 disabled:hover:text-primary"
+          >
+            <Sparkles className="w-3 h-3" />
+            {images?.generatedImage ? 'Re-visualize' : 'Visualize'}
+          </button>
+          <button
+            onClick={() => images?.generatedImage && downloadImage(images.generatedImage, combination.name)}
+            disabled={!images?.generatedImage}
+            className="py-2 px-3 bg-secondary border border-gray-600 text-gray-400 rounded-lg text-xs font-medium hover:text-white hover:border-gray-500 transition-colors flex items-center gap-1 disabled:opacity-40"
+            aria-label="Export preview image"
+          >
+            <Download className="w-3 h-3" />
+            Export
+          </button>
+          <button
+            onClick={() => setShowBarberSheet(true)}
+            className="py-2 px-3 bg-secondary border border-gray-600 text-gray-400 rounded-lg text-xs font-medium hover:text-primary hover:border-gray-500 transition-colors"
+            aria-label="Open barber handoff sheet"
+            title="Take this to your barber"
+          >
+            <ClipboardList className="w-3 h-3" />
+          </button>
+          <button
+            onClick={() => removeSavedLook(look.id).catch(err => console.error('Error removing saved look', err))}
+            className="py-2 px-3 bg-secondary border border-gray-600 text-gray-400 rounded-lg text-xs font-medium hover:text-red-400 hover:border-gray-500 transition-colors"
+            aria-label="Remove saved look"
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+
+      {showBarberSheet && (
+        <BarberHandoffSheet
+          combination={combination}
+          beforeImage={images?.sourceImage}
+          afterImage={images?.generatedImage}
+          faceShape={look.faceShape}
+          onClose={() => setShowBarberSheet(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export const SavedLooksView: React.FC<SavedLooksViewProps> = ({ onBack }) => {
+  const [looks, setLooks] = useState<SavedLook[]>(() => getSavedLooks());
+
+  const refresh = useCallback(() => setLooks(getSavedLooks()), []);
+
+  useEffect(() => subscribeToSavedLooks(refresh), [refresh]);
+
+  // Newest first
+  const sortedLooks = [...looks].sort((a, b) => b.savedAt - a.savedAt);
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-red-500/10 rounded-lg text-red-500">
+            <Heart className="w-6 h-6 fill-current" />
+          </div>
+          <div>
+            <h2 className="text-2xl md:text-3xl font-bold text-white">Saved Looks</h2>
+            <p className="text-sm text-gray-400">Your favourite looks, ready to re-visualize or take to the barber.</p>
+          </div>
+        </div>
+        <button onClick={onBack} className="flex items-center gap-2 text-sm text-gray-400 hover:text-white transition-colors">
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+      </div>
+
+      {sortedLooks.length === 0 ? (
+        <div className="p-12 border border-dashed border-gray-700 rounded-2xl text-center">
+          <p className="text-gray-400">No saved looks yet. Tap the heart on any look, or save a custom look from the Style Playground.</p>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {sortedLooks.map(look => (
+            <SavedLookCard key={look.id} look={look} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
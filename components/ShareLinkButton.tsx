@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Link2, Check, Loader2 } from 'lucide-react';
+import { SharedLook } from '../types';
+import { createShareLink } from '../services/shareLink';
+
+interface ShareLinkButtonProps {
+  // Built on click so the link always carries the look as it is now
+  getLook: () => SharedLook | null;
+  className?: string;
+}
+
+type LinkStatus = 'idle' | 'working' | 'copied' | 'error';
+
+// "Share link" with an option to embed a small preview; uses the share sheet when there is one
+export const ShareLinkButton: React.FC<ShareLinkButtonProps> = ({ getLook, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includePreview, setIncludePreview] = useState(true);
+  const [status, setStatus] = useState<LinkStatus>('idle');
+
+  const handleCreate = async () => {
+    const look = getLook();
+    if (!look) return;
+    setStatus('working');
+    try {
+      const url = await createShareLink(look, { includePreview });
+      if (navigator.share) {
+        try {
+          await navigator.share({ title: `Sharp.AI look: ${look.combination.name}`, url });
+          setStatus('idle');
+          setIsOpen(false);
+          return;
+        } catch (err) {
+          // Dismissing the share sheet isn't a failure; anything else falls back to the clipboard
+          if (err instanceof DOMException && err.name === 'AbortError') {
+            setStatus('idle');
+            return;
+          }
+        }
+      }
+      await navigator.clipboard.writeText(url);
+      setStatus('copied');
+    } catch (err) {
+      console.error('Error creating share link', err);
+      setStatus('error');
+    }
+  };
+
+  const hasPreview = !!getLook()?.previewImage;
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={() => { setIsOpen(open => !open); setStatus('idle'); }}
+        className="h-full py-2 px-3 bg-secondary border border-gray-600 text-gray-400 rounded-lg text-xs font-medium hover:text-white hover:border-gray-500 transition-colors"
+        title="Share a link to this look"
+        aria-label="Share link"
+        aria-expanded={isOpen}
+      >
+        <Link2 className="w-3 h-3" />
+      </button>
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 w-60 z-40 bg-secondary border border-gray-700 rounded-lg shadow-xl p-3 space-y-2 text-xs animate-fade-in">
+          <p className="text-gray-300">Anyone with the link sees this look, its reasoning and cutting notes. Nothing is uploaded.</p>
+          {hasPreview && (
+            <label className="flex items-center gap-2 text-gray-400">
+              <input
+                type="checkbox"
+                checked={includePreview}
+                onChange={(e) => setIncludePreview(e.target.checked)}
+                className="accent-primary"
+              />
+              Include a small preview image
+            </label>
+          )}
+          <button
+            onClick={handleCreate}
+            disabled={status === 'working'}
+            className="w-full py-2 bg-primary text-secondary rounded-md font-bold hover:bg-yellow-500 transition-colors flex items-center justify-center gap-1.5 disabled:opacity-60"
+          >
+            {status === 'working' ? <Loader2 className="w-3 h-3 animate-spin" /> : status === 'copied' ? <Check className="w-3 h-3" /> : <Link2 className="w-3 h-3" />}
+            {status === 'copied' ? 'Link copied' : 'Copy link'}
+          </button>
+          {status === 'error' && <p className="text-red-400">Couldn't create the link. Try again.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, ClipboardList, Link2, Loader2, Scissors, Sparkles, UserCheck } from 'lucide-react';
+import { SharedLook } from '../types';
+import { decodeShareLink } from '../services/shareLink';
+import { getHairGuidance, getBeardGuidance, CuttingGuideline } from '../services/cuttingGuidance';
+import { BarberHandoffSheet } from './BarberHandoffSheet';
+
+interface SharedLookViewProps {
+  // Encoded look from the URL fragment
+  fragment: string;
+  onClose: () => void;
+}
+
+// Analysis text and tips come back with **bold** markers
+const formatText = (text: string) =>
+  text.split(/(\*\*[\s\S]*?\*\*)/g).map((part, index) =>
+    part.startsWith('**') && part.endsWith('**')
+      ? <strong key={index} className="text-white font-bold">{part.slice(2, -2)}</strong>
+      : <span key={index}>{part}</span>
+  );
+
+const GuideList: React.FC<{ title: string; styleName: string; guide: CuttingGuideline[] }> = ({ title, styleName, guide }) => (
+  <div>
+    <h4 className="text-[10px] font-bold uppercase tracking-wider text-gray-500">{title}</h4>
+    <p className="text-white font-semibold mb-2">{styleName}</p>
+    <dl className="text-xs space-y-1">
+      {guide.map(row => (
+        <div key={row.label} className="flex gap-3 border-t border-gray-800 pt-1">
+          <dt className="text-gray-500 w-24 flex-shrink-0">{row.label}</dt>
+          <dd className="text-gray-300">{row.value}</dd>
+        </div>
+      ))}
+    </dl>
+  </div>
+);
+
+// Read-only recommendation card opened from a share link; nothing here needs an API key
+export const SharedLookView: React.FC<SharedLookViewProps> = ({ fragment, onClose }) => {
+  const [look, setLook] = useState<SharedLook | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showBarberSheet, setShowBarberSheet] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLook(null);
+    setError(null);
+    decodeShareLink(fragment)
+      .then(decoded => { if (!cancelled) setLook(decoded); })
+      .catch(err => {
+        console.error('Error opening share link', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'This share link could not be opened.');
+      });
+    return () => { cancelled = true; };
+  }, [fragment]);
+
+  if (error) {
+    return (
+      <div className="max-w-md mx-auto text-center space-y-4 py-16 animate-fade-in">
+        <Link2 className="w-10 h-10 text-gray-600 mx-auto" />
+        <p className="text-gray-300">{error}</p>
+        <button onClick={onClose} className="text-sm text-primary hover:underline">Get your own analysis</button>
+      </div>
+    );
+  }
+
+  if (!look) return <Loader2 className="w-8 h-8 text-primary animate-spin mx-auto my-16" />;
+
+  const { combination } = look;
+  const hairGuide = combination.hairstyle ? getHairGuidance(combination.hairstyle, look.hairSpec) : [];
+  const beardGuide = combination.facialHair ? getBeardGuidance(combination.facialHair, look.beardSpec) : [];
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+      <button onClick={onClose} className="text-sm text-gray-400 hover:text-primary flex items-center gap-1">
+        <ArrowLeft className="w-4 h-4" /> Get your own analysis
+      </button>
+
+      <div className="bg-gradient-to-br from-surface to-[#1F1F1F] rounded-xl overflow-hidden border border-gray-700 shadow-xl md:flex">
+        {look.previewImage && (
+          <img src={look.previewImage} alt={combination.name} className="w-full md:w-72 aspect-square object-cover flex-shrink-0" />
+        )}
+        <div className="p-6 space-y-4 flex-1">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <p className="text-[10px] font-bold uppercase tracking-[0.2em] text-primary">Shared look</p>
+              <h2 className="text-2xl font-bold text-white tracking-tight">{combination.name}</h2>
+              {look.faceShape && <p className="text-xs text-gray-400 mt-1">Recommended for a {look.faceShape.toLowerCase()} face</p>}
+            </div>
+            <Sparkles className="text-primary w-5 h-5 flex-shrink-0" />
+          </div>
+
+          {combination.description && <p className="text-gray-300 text-sm leading-relaxed">{combination.description}</p>}
+          {combination.reasoning && (
+            <p className="text-xs text-gray-500 italic border-l-2 border-gray-700 pl-3">{combination.reasoning}</p>
+          )}
+          {combination.constraintFit && (
+            <p className="text-xs text-gray-400 flex items-start gap-2">
+              <UserCheck className="w-3.5 h-3.5 text-green-400 mt-0.5 flex-shrink-0" />
+              {combination.constraintFit}
+            </p>
+          )}
+
+          <button
+            onClick={() => setShowBarberSheet(true)}
+            className="py-2 px-4 bg-primary text-secondary rounded-lg text-xs font-bold hover:bg-yellow-500 transition-colors flex items-center gap-2"
+          >
+            <ClipboardList className="w-4 h-4" />
+            Barber Sheet
+          </button>
+        </div>
+      </div>
+
+      {(hairGuide.length > 0 || beardGuide.length > 0) && (
+        <div className="bg-surface/50 rounded-xl border border-gray-800 p-6">
+          <h3 className="text-white font-bold flex items-center gap-2 mb-4">
+            <Scissors className="w-4 h-4 text-primary" /> Cutting Notes
+          </h3>
+          <div className={`grid gap-6 ${hairGuide.length > 0 && beardGuide.length > 0 ? 'md:grid-cols-2' : ''}`}>
+            {hairGuide.length > 0 && <GuideList title="Haircut" styleName={combination.hairstyle} guide={hairGuide} />}
+            {beardGuide.length > 0 && <GuideList title="Facial Hair" styleName={combination.facialHair} guide={beardGuide} />}
+          </div>
+        </div>
+      )}
+
+      {(look.faceAnalysis || look.groomingTips) && (
+        <div className="bg-surface/50 rounded-xl border border-gray-800 p-6 space-y-4">
+          {look.faceAnalysis && (
+            <div>
+              <h3 className="text-white font-bold mb-2">Face Analysis</h3>
+              <p className="text-sm text-gray-300 leading-relaxed">{formatText(look.faceAnalysis)}</p>
+            </div>
+          )}
+          {look.groomingTips && (
+            <div>
+              <h3 className="text-white font-bold mb-2">Grooming Tips</h3>
+              <ul className="space-y-1.5 text-sm text-gray-300 list-disc pl-5">
+                {look.groomingTips.map((tip, index) => <li key={index}>{formatText(tip)}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {showBarberSheet && (
+        <BarberHandoffSheet
+          combination={combination}
+          afterImage={look.previewImage}
+          hairSpec={look.hairSpec}
+          beardSpec={look.beardSpec}
+          faceShape={look.faceShape}
+          faceAnalysis={look.faceAnalysis}
+          groomingTips={look.groomingTips}
+          onClose={() => setShowBarberSheet(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,313 @@
+import React, { useState, useEffect } from 'react';
+import { Search, X, Info, Check, Ruler, ScanFace, SearchX } from 'lucide-react';
+import { CatalogStyle, StyleCategory, StyleDifficulty, StyleLength } from '../types';
+import {
+  CatalogFilters,
+  EMPTY_CATALOG_FILTERS,
+  HAIRSTYLE_CATALOG,
+  FACIAL_HAIR_CATALOG,
+  filterCatalog,
+} from '../services/styleCatalog';
+import { HAIR_TEXTURE_OPTIONS } from '../services/preferences';
+import { getHairGuidance, getBeardGuidance } from '../services/cuttingGuidance';
+
+interface StyleExplorerProps {
+  faceShape?: string;
+  selectedHair: string | null;
+  selectedBeard: string | null;
+  onSelect: (category: StyleCategory, name: string | null) => void;
+}
+
+const LENGTHS: StyleLength[] = ['Bald', 'Short', 'Medium', 'Long'];
+const MAINTENANCE_LEVELS: StyleDifficulty[] = ['Easy', 'Moderate', 'Advanced'];
+
+interface FilterPillsProps<T extends string> {
+  title: string;
+  options: { value: T; label: string }[];
+  value?: T;
+  onSelect: (value: T | undefined) => void;
+}
+
+// Single-choice filter; clicking the active pill clears it
+const FilterPills = <T extends string>({ title, options, value, onSelect }: FilterPillsProps<T>) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider w-24">{title}</span>
+    {options.map(option => (
+      <button
+        key={option.value}
+        type="button"
+        onClick={() => onSelect(option.value === value ? undefined : option.value)}
+        className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+          option.value === value
+            ? 'bg-primary text-secondary border-primary'
+            : 'bg-secondary text-gray-400 border-gray-700 hover:border-gray-500 hover:text-gray-200'
+        }`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+const asOptions = <T extends string>(values: T[]) => values.map(value => ({ value, label: value }));
+
+interface StyleDetailDrawerProps {
+  style: CatalogStyle;
+  faceShape?: string;
+  isSelected: boolean;
+  onToggle: () => void;
+  onClose: () => void;
+}
+
+const StyleDetailDrawer: React.FC<StyleDetailDrawerProps> = ({ style, faceShape, isSelected, onToggle, onClose }) => {
+  const guidance = style.category === 'hair' ? getHairGuidance(style.name) : getBeardGuidance(style.name);
+  const textures = style.tags.textures
+    ?.map(texture => HAIR_TEXTURE_OPTIONS.find(option => option.value === texture)?.label)
+    .filter(Boolean);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose}></div>
+      <aside className="relative w-full max-w-md h-full bg-secondary border-l border-gray-700 shadow-2xl overflow-y-auto animate-fade-in">
+        <div className="relative h-64 bg-gray-900">
+          <img src={style.image} alt={style.name} className="w-full h-full object-cover" />
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 bg-black/50 hover:bg-black/70 text-white p-2 rounded-full transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <span className="text-[10px] uppercase tracking-wider text-gray-500 font-bold">
+              {style.category === 'hair' ? 'Hairstyle' : 'Facial Hair'}
+            </span>
+            <h3 className="text-2xl font-bold text-primary">{style.name}</h3>
+            {style.aliases.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">Also called: {style.aliases.join(', ')}</p>
+            )}
+          </div>
+
+          <p className="text-gray-300 leading-relaxed">{style.summary}</p>
+
+          <div className="flex flex-wrap gap-2 text-xs">
+            <span className="px-2 py-1 rounded bg-surface border border-gray-700 text-gray-300">Length: {style.tags.length}</span>
+            <span className="px-2 py-1 rounded bg-surface border border-gray-700 text-gray-300">Upkeep: {style.tags.maintenance}</span>
+            {textures && textures.length > 0 && (
+              <span className="px-2 py-1 rounded bg-surface border border-gray-700 text-gray-300">Texture: {textures.join(', ')}</span>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 flex items-center gap-2">
+              <ScanFace className="w-3.5 h-3.5 text-primary" />
+              Suits face shapes
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {style.tags.faceShapes.map(shape => (
+                <span
+                  key={shape}
+                  className={`px-2 py-1 rounded-full text-xs border ${
+                    shape === faceShape ? 'bg-primary/20 text-primary border-primary' : 'text-gray-400 border-gray-700'
+                  }`}
+                >
+                  {shape}{shape === faceShape ? ' (you)' : ''}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 flex items-center gap-2">
+              <Ruler className="w-3.5 h-3.5 text-primary" />
+              Typical cut
+            </h4>
+            <table className="w-full text-xs border-collapse">
+              <tbody>
+                {guidance.map(row => (
+                  <tr key={row.label} className="border-t border-gray-700/60">
+                    <th className="text-left font-medium text-gray-500 py-1.5 pr-3 align-top whitespace-nowrap">{row.label}</th>
+                    <td className="text-gray-200 py-1.5">{row.value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <button
+            onClick={onToggle}
+            className={`w-full py-3 rounded-lg font-bold text-sm flex items-center justify-center gap-2 transition-all ${
+              isSelected
+                ? 'border border-gray-600 text-gray-300 hover:bg-gray-800'
+                : 'bg-primary text-secondary hover:bg-primary/90'
+            }`}
+          >
+            {isSelected ? 'Remove from Look' : (
+              <>
+                <Check className="w-4 h-4" />
+                Use in My Look
+              </>
+            )}
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+interface StyleGridProps {
+  title: string;
+  styles: CatalogStyle[];
+  selected: string | null;
+  onSelect: (name: string | null) => void;
+  onInfo: (style: CatalogStyle) => void;
+}
+
+const StyleGrid: React.FC<StyleGridProps> = ({ title, styles, selected, onSelect, onInfo }) => (
+  <div>
+    <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+      <span className="w-1.5 h-1.5 rounded-full bg-primary"></span>
+      {title}
+      <span className="text-gray-600 normal-case font-normal">({styles.length})</span>
+    </h4>
+    {styles.length > 0 ? (
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+        {styles.map(style => {
+          const isSelected = selected === style.name;
+          return (
+            <div
+              key={style.id}
+              className={`relative rounded-lg overflow-hidden border bg-secondary transition-all group/style ${
+                isSelected ? 'border-primary shadow-[0_0_15px_rgba(207,181,59,0.3)]' : 'border-gray-700 hover:border-gray-500'
+              }`}
+            >
+              <button onClick={() => onSelect(isSelected ? null : style.name)} className="block w-full text-left">
+                <div className="aspect-square bg-gray-900 overflow-hidden">
+                  <img
+                    src={style.image}
+                    alt={style.name}
+                    loading="lazy"
+                    className="w-full h-full object-cover opacity-90 group-hover/style:opacity-100 group-hover/style:scale-105 transition-all duration-500"
+                  />
+                </div>
+                <div className="p-3">
+                  <p className={`text-sm font-semibold ${isSelected ? 'text-primary' : 'text-gray-200'}`}>{style.name}</p>
+                  <p className="text-[10px] text-gray-500 uppercase tracking-wider mt-0.5">
+                    {style.tags.length} · {style.tags.maintenance} upkeep
+                  </p>
+                </div>
+              </button>
+              {isSelected && (
+                <div className="absolute top-2 left-2 bg-primary text-secondary rounded-full p-1 pointer-events-none">
+                  <Check className="w-3 h-3" />
+                </div>
+              )}
+              <button
+                onClick={() => onInfo(style)}
+                className="absolute top-2 right-2 bg-black/60 hover:bg-black/80 text-white p-1.5 rounded-full transition-colors"
+                title={`What is a ${style.name}?`}
+              >
+                <Info className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    ) : (
+      <div className="p-4 border border-dashed border-gray-700 rounded-lg text-center flex items-center justify-center gap-2">
+        <SearchX className="w-4 h-4 text-gray-600" />
+        <p className="text-gray-500 text-sm">No styles match these filters.</p>
+      </div>
+    )}
+  </div>
+);
+
+export const StyleExplorer: React.FC<StyleExplorerProps> = ({ faceShape, selectedHair, selectedBeard, onSelect }) => {
+  const [filters, setFilters] = useState<CatalogFilters>(EMPTY_CATALOG_FILTERS);
+  const [detailStyle, setDetailStyle] = useState<CatalogStyle | null>(null);
+
+  const update = <K extends keyof CatalogFilters>(key: K, value: CatalogFilters[K]) =>
+    setFilters(current => ({ ...current, [key]: value }));
+
+  const hairstyles = filterCatalog(HAIRSTYLE_CATALOG, filters);
+  // Texture says nothing about beards, so it only narrows the hairstyles
+  const facialHair = filterCatalog(FACIAL_HAIR_CATALOG, { ...filters, texture: undefined });
+  const isFiltered = filters.query.trim() !== '' || !!(filters.length || filters.maintenance || filters.texture || filters.faceShape);
+
+  const selectedFor = (style: CatalogStyle) => (style.category === 'hair' ? selectedHair : selectedBeard);
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      {/* Search & Filters */}
+      <div className="bg-black/20 border border-gray-800 rounded-xl p-4 space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={e => update('query', e.target.value)}
+            placeholder="Search styles, e.g. fade, mustache, curly"
+            className="w-full bg-secondary border border-gray-700 rounded-lg pl-9 pr-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:border-primary"
+          />
+        </div>
+        <FilterPills title="Length" options={asOptions(LENGTHS)} value={filters.length} onSelect={v => update('length', v)} />
+        <FilterPills title="Upkeep" options={asOptions(MAINTENANCE_LEVELS)} value={filters.maintenance} onSelect={v => update('maintenance', v)} />
+        <FilterPills title="Hair texture" options={HAIR_TEXTURE_OPTIONS} value={filters.texture} onSelect={v => update('texture', v)} />
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          {faceShape ? (
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filters.faceShape === faceShape}
+                onChange={e => update('faceShape', e.target.checked ? faceShape : undefined)}
+                className="accent-[#CFB53B]"
+              />
+              Only styles that suit my {faceShape.toLowerCase()} face
+            </label>
+          ) : <span />}
+          {isFiltered && (
+            <button onClick={() => setFilters(EMPTY_CATALOG_FILTERS)} className="text-xs text-gray-500 hover:text-gray-300 underline">
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
+      <StyleGrid
+        title="Hairstyles"
+        styles={hairstyles}
+        selected={selectedHair}
+        onSelect={name => onSelect('hair', name)}
+        onInfo={setDetailStyle}
+      />
+      <StyleGrid
+        title="Facial Hair"
+        styles={facialHair}
+        selected={selectedBeard}
+        onSelect={name => onSelect('beard', name)}
+        onInfo={setDetailStyle}
+      />
+
+      {detailStyle && (
+        <StyleDetailDrawer
+          style={detailStyle}
+          faceShape={faceShape}
+          isSelected={selectedFor(detailStyle) === detailStyle.name}
+          onToggle={() => onSelect(detailStyle.category, selectedFor(detailStyle) === detailStyle.name ? null : detailStyle.name)}
+          onClose={() => setDetailStyle(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,105 +1,155 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { StyleRecommendation } from '../types';
-import { Sparkles, Loader2, ChevronsLeftRight, Share2, RefreshCw, Star, Globe } from 'lucide-react';
-import { generateLookPreview } from '../services/geminiService';
-
-// Asset-backed constants matching hosted images
-const ALL_HAIRSTYLES = [
-  "Afro", "Braids / Cornrows", "Buzz Cut", "Caesar Cut", "Crew Cut",
-  "Curly Hair", "Dreadlocks", "Fade", "Fringe / Bangs", "Long Wavy Flow",
-  "Man Bun", "Pompadour", "Quiff", "Side Part", "Slick Back",
-  "Spiky / Faux Hawk", "Textured Crop", "Undercut"
-];
-
-const ALL_FACIAL_HAIR = [ 
-  "Anchor Beard", "Balbo", "Chin Strap", "Clean Shaven", "Full Beard", 
-  "Goatee", "Heavy Stubble", "Mutton Chops", "Chevron Mustache", 
-  "Short Boxed Beard", "Prominent Sideburns", "Van Dyke" 
-];
+import { AnalysisResult, GeneratedPreview, StyleCategory, StyleRecommendation, StyleCombination } from '../types';
+import { Sparkles, Share2, RefreshCw, Star, Globe, Heart, ClipboardList } from 'lucide-react';
+import { enqueuePreview, cancelPreview, isJobPending } from '../services/generationQueue';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { describeCustomLook, lookEditRegions } from '../services/lookPrompts';
+import { saveLook } from '../services/savedLooksStore';
+import { findStyleSpec } from '../services/cuttingGuidance';
+import { buildSharedLook } from '../services/shareLink';
+import { BarberHandoffSheet } from './BarberHandoffSheet';
+import { StyleExplorer } from './StyleExplorer';
+import { GenerationProgress } from './GenerationProgress';
+import { VariationStrip } from './VariationStrip';
+import { usePreviewVariations } from './usePreviewVariations';
+import { RefinementPanel } from './RefinementPanel';
+import { IdentityWarning } from './IdentityWarning';
+import { useLookRefinement } from './useLookRefinement';
+import { ComparisonViewer, lookComparisonImages } from './ComparisonViewer';
+import { ShareLinkButton } from './ShareLinkButton';
 
 interface StylePlaygroundProps {
   hairstyles: StyleRecommendation[];
   facialHair: StyleRecommendation[];
   originalImageBase64: string;
+  analysis?: AnalysisResult;
+  jobKey: string;
+  // Session previews; the latest custom look is shown again when the playground remounts
+  previews?: GeneratedPreview[];
+  onPreviewGenerated?: (key: string, label: string, imageUrl: string) => void;
 }
 
-export const StylePlayground: React.FC<StylePlaygroundProps> = ({ hairstyles, facialHair, originalImageBase64 }) => {
-  const [viewMode, setViewMode] = useState<'recommended' | 'explore'>('recommended');
-  const [selectedHair, setSelectedHair] = useState<string | null>(null);
-  const [selectedBeard, setSelectedBeard] = useState<string | null>(null);
-  
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [sliderPosition, setSliderPosition] = useState(50);
-  const [containerWidth, setContainerWidth] = useState(0);
-  
-  const containerRef = useRef<HTMLDivElement>(null);
+const PLAYGROUND_KEY_PREFIX = 'playground:';
 
-  // Monitor container size to ensure foreground image matches background exactly
-  useEffect(() => {
-    if (!generatedImage || !containerRef.current) return;
+// Custom looks are stored per selection, apart from the recommended looks' `combination-<n>` keys
+const playgroundPreviewKey = (combination: StyleCombination) =>
+  `${PLAYGROUND_KEY_PREFIX}${JSON.stringify([combination.hairstyle, combination.facialHair])}`;
 
-    const updateWidth = () => {
-      if (containerRef.current) {
-        setContainerWidth(containerRef.current.offsetWidth);
-      }
-    };
+const buildCustomCombination = (hair: string | null, beard: string | null): StyleCombination => ({
+  name: `Custom: ${[hair, beard].filter(Boolean).join(' + ')}`,
+  description: "Custom look created in the Style Playground.",
+  hairstyle: hair || '',
+  facialHair: beard || '',
+  reasoning: '',
+});
 
-    // Initial measurement
-    updateWidth();
+// Selection and image of the session's latest custom look, read back from its preview key
+const restoreCustomLook = (previews: GeneratedPreview[]) => {
+  const preview = [...previews].reverse().find(candidate => candidate.key?.startsWith(PLAYGROUND_KEY_PREFIX));
+  if (!preview?.key) return null;
+  try {
+    const [hair, beard] = JSON.parse(preview.key.slice(PLAYGROUND_KEY_PREFIX.length));
+    if (typeof hair !== 'string' || typeof beard !== 'string') return null;
+    return { combination: buildCustomCombination(hair || null, beard || null), imageUrl: preview.imageUrl };
+  } catch {
+    return null;
+  }
+};
 
-    const resizeObserver = new ResizeObserver(updateWidth);
-    resizeObserver.observe(containerRef.current);
+export const StylePlayground: React.FC<StylePlaygroundProps> = ({ hairstyles, facialHair, originalImageBase64, analysis, jobKey, previews = [], onPreviewGenerated }) => {
+  const [restored] = useState(() => restoreCustomLook(previews));
+  const [viewMode, setViewMode] = useState<'recommended' | 'explore'>('recommended');
+  const [selectedHair, setSelectedHair] = useState<string | null>(restored?.combination.hairstyle || null);
+  const [selectedBeard, setSelectedBeard] = useState<string | null>(restored?.combination.facialHair || null);
+  
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+  // Selection the current preview was generated from (the pickers stay editable afterwards)
+  const [generatedCombination, setGeneratedCombination] = useState<StyleCombination | null>(restored?.combination ?? null);
+  const [showBarberSheet, setShowBarberSheet] = useState(false);
+
+  const description = generatedCombination
+    ? describeCustomLook(generatedCombination.hairstyle || null, generatedCombination.facialHair || null)
+    : null;
+  const editRegions = lookEditRegions(generatedCombination?.hairstyle, generatedCombination?.facialHair);
+  const variations = usePreviewVariations(jobKey, originalImageBase64, description, editRegions, restored?.imageUrl);
+  // The slider shows the selected variation; the pinned favourite is what gets saved
+  const generatedImage = variations.selected?.imageUrl ?? null;
+  const favouriteImage = variations.favourite?.imageUrl ?? null;
+  // Refinements build on the selected variation and, once made, are the look
+  const refinement = useLookRefinement(jobKey, originalImageBase64, description, editRegions, generatedImage);
+  const displayedImage = refinement.currentImage ?? generatedImage;
+  const lookImage = refinement.currentImage ?? favouriteImage;
+  const displayedIdentity = refinement.steps.length > 0
+    ? refinement.steps[refinement.steps.length - 1].identity
+    : variations.selected?.identity;
+  const job = variations.jobs[jobKey];
+  const isGenerating = isJobPending(job);
+  // Favourite last reported to the session, so a restored image isn't re-saved
+  const reportedImage = useRef<string | null>(restored?.imageUrl ?? null);
 
-    return () => resizeObserver.disconnect();
-  }, [generatedImage]);
+  useEffect(() => {
+    if (!lookImage || !generatedCombination || lookImage === reportedImage.current) return;
+    reportedImage.current = lookImage;
+    onPreviewGenerated?.(playgroundPreviewKey(generatedCombination), generatedCombination.name, lookImage);
+  }, [lookImage]);
 
-  // Determine which lists to display based on view mode
-  const displayHairstyles = viewMode === 'recommended' 
-    ? hairstyles.map(h => h.name) 
-    : ALL_HAIRSTYLES;
+  // The explore tab renders the full catalog through StyleExplorer instead
+  const displayHairstyles = hairstyles.map(h => h.name);
+  const displayFacialHair = facialHair.map(h => h.name);
 
-  const displayFacialHair = viewMode === 'recommended'
-    ? facialHair.map(h => h.name)
-    : ALL_FACIAL_HAIR;
+  const handleExplorerSelect = (category: StyleCategory, name: string | null) =>
+    category === 'hair' ? setSelectedHair(name) : setSelectedBeard(name);
 
   const handleVisualize = async () => {
     // If lists are present but nothing selected, don't generate (unless list is empty)
-    const hairPart = selectedHair ? `Hairstyle: ${selectedHair}` : '';
-    const beardPart = selectedBeard ? `Facial Hair: ${selectedBeard}` : '';
-    
-    if (!hairPart && !beardPart) return;
+    if (!selectedHair && !selectedBeard) return;
 
-    setIsGenerating(true);
     setError(null);
+    setIsSaved(false);
+    // The variations hook picks the image up from the queue
+    setGeneratedCombination(buildCustomCombination(selectedHair, selectedBeard));
     try {
-      const description = `${hairPart}. ${beardPart}. Create a cohesive look.`;
-      const imageUrl = await generateLookPreview(originalImageBase64, description);
-      setGeneratedImage(imageUrl);
-      setSliderPosition(50);
+      await enqueuePreview(jobKey, originalImageBase64, describeCustomLook(selectedHair, selectedBeard), {
+        editRegions: lookEditRegions(selectedHair, selectedBeard),
+      });
     } catch (err) {
+      if (isCancelled(err)) return;
       console.error(err);
-      setError("Could not generate preview. Please try again.");
-    } finally {
-      setIsGenerating(false);
+      setError(getErrorMessage(err, 'preview'));
     }
   };
 
-  const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSliderPosition(Number(e.target.value));
+  // Skips the cached image for the variation on screen
+  const handleRegenerate = () => {
+    if (variations.selected) variations.regenerateVariation(variations.selected.key);
   };
 
   const handleReset = () => {
-    setGeneratedImage(null);
+    variations.reset();
     setError(null);
-    setContainerWidth(0);
+    setIsSaved(false);
+  };
+
+  const handleSaveLook = async () => {
+    if (!lookImage || !generatedCombination || isSaved) return;
+    try {
+      await saveLook(generatedCombination, {
+        source: 'custom',
+        faceShape: analysis?.faceShape,
+        generatedImage: lookImage,
+        sourceImage: originalImageBase64,
+      });
+      setIsSaved(true);
+    } catch (err) {
+      console.error('Error saving look', err);
+    }
   };
 
   const downloadImage = () => {
-    if (!generatedImage) return;
+    if (!displayedImage) return;
     const link = document.createElement('a');
-    link.href = generatedImage;
+    link.href = displayedImage;
     link.download = `stylescout-custom-${new Date().getTime()}.png`;
     document.body.appendChild(link);
     link.click();
@@ -107,11 +157,11 @@ export const StylePlayground: React.FC<StylePlaygroundProps> = ({ hairstyles, fa
   };
 
   const handleShare = async () => {
-    if (!generatedImage) return;
+    if (!displayedImage) return;
 
     if (navigator.share) {
       try {
-        const response = await fetch(generatedImage);
+        const response = await fetch(displayedImage);
         const blob = await response.blob();
         const file = new File([blob], 'custom-look.png', { type: 'image/png' });
 
@@ -166,99 +216,104 @@ export const StylePlayground: React.FC<StylePlaygroundProps> = ({ hairstyles, fa
       </div>
 
       {/* Selection Area */}
-      <div className="space-y-8 animate-fade-in">
-        {/* Hairstyles Section */}
-        {displayHairstyles.length > 0 ? (
-          <div>
-            <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
-               <span className="w-1.5 h-1.5 rounded-full bg-primary"></span>
-               Select Hairstyle
-            </h4>
-            <div className="flex flex-wrap gap-3">
-              {displayHairstyles.map((name) => (
-                <button
-                  key={name}
-                  onClick={() => setSelectedHair(name === selectedHair ? null : name)}
-                  className={`px-5 py-2.5 rounded-full text-sm font-medium transition-all duration-300 border ${
-                    selectedHair === name
-                      ? 'bg-primary text-secondary border-primary shadow-[0_0_15px_rgba(207,181,59,0.3)] scale-105'
-                      : 'bg-secondary text-gray-400 border-gray-700 hover:border-gray-500 hover:text-gray-200'
-                  }`}
-                >
-                  {name}
-                </button>
-              ))}
+      {viewMode === 'explore' ? (
+        <StyleExplorer
+          faceShape={analysis?.faceShape}
+          selectedHair={selectedHair}
+          selectedBeard={selectedBeard}
+          onSelect={handleExplorerSelect}
+        />
+      ) : (
+        <div className="space-y-8 animate-fade-in">
+          {/* Hairstyles Section */}
+          {displayHairstyles.length > 0 ? (
+            <div>
+              <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+                 <span className="w-1.5 h-1.5 rounded-full bg-primary"></span>
+                 Select Hairstyle
+              </h4>
+              <div className="flex flex-wrap gap-3">
+                {displayHairstyles.map((name) => (
+                  <button
+                    key={name}
+                    onClick={() => setSelectedHair(name === selectedHair ? null : name)}
+                    className={`px-5 py-2.5 rounded-full text-sm font-medium transition-all duration-300 border ${
+                      selectedHair === name
+                        ? 'bg-primary text-secondary border-primary shadow-[0_0_15px_rgba(207,181,59,0.3)] scale-105'
+                        : 'bg-secondary text-gray-400 border-gray-700 hover:border-gray-500 hover:text-gray-200'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
             </div>
-          </div>
-        ) : (
-          viewMode === 'recommended' && (
-             <div className="p-4 border border-dashed border-gray-700 rounded-lg text-center">
-                <p className="text-gray-500 text-sm">No hairstyle suggestions available for this analysis mode.</p>
-             </div>
-          )
-        )}
+          ) : (
+            <div className="p-4 border border-dashed border-gray-700 rounded-lg text-center">
+               <p className="text-gray-500 text-sm">No hairstyle suggestions available for this analysis mode.</p>
+            </div>
+          )}
 
-        {/* Facial Hair Section */}
-        {displayFacialHair.length > 0 ? (
-          <div>
-            <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
-               <span className="w-1.5 h-1.5 rounded-full bg-primary"></span>
-               Select Facial Hair
-            </h4>
-            <div className="flex flex-wrap gap-3">
-              {displayFacialHair.map((name) => (
-                <button
-                  key={name}
-                  onClick={() => setSelectedBeard(name === selectedBeard ? null : name)}
-                  className={`px-5 py-2.5 rounded-full text-sm font-medium transition-all duration-300 border ${
-                    selectedBeard === name
-                      ? 'bg-primary text-secondary border-primary shadow-[0_0_15px_rgba(207,181,59,0.3)] scale-105'
-                      : 'bg-secondary text-gray-400 border-gray-700 hover:border-gray-500 hover:text-gray-200'
-                  }`}
-                >
-                  {name}
-                </button>
-              ))}
+          {/* Facial Hair Section */}
+          {displayFacialHair.length > 0 ? (
+            <div>
+              <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+                 <span className="w-1.5 h-1.5 rounded-full bg-primary"></span>
+                 Select Facial Hair
+              </h4>
+              <div className="flex flex-wrap gap-3">
+                {displayFacialHair.map((name) => (
+                  <button
+                    key={name}
+                    onClick={() => setSelectedBeard(name === selectedBeard ? null : name)}
+                    className={`px-5 py-2.5 rounded-full text-sm font-medium transition-all duration-300 border ${
+                      selectedBeard === name
+                        ? 'bg-primary text-secondary border-primary shadow-[0_0_15px_rgba(207,181,59,0.3)] scale-105'
+                        : 'bg-secondary text-gray-400 border-gray-700 hover:border-gray-500 hover:text-gray-200'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
             </div>
-          </div>
-        ) : (
-          viewMode === 'recommended' && (
-             <div className="p-4 border border-dashed border-gray-700 rounded-lg text-center">
-                <p className="text-gray-500 text-sm">No facial hair suggestions available for this analysis mode.</p>
-             </div>
-          )
-        )}
-      </div>
+          ) : (
+            <div className="p-4 border border-dashed border-gray-700 rounded-lg text-center">
+               <p className="text-gray-500 text-sm">No facial hair suggestions available for this analysis mode.</p>
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Action Button */}
       {!generatedImage && (
         <div className="flex flex-col items-center pt-2">
             {error && <p className="text-red-400 text-sm mb-2">{error}</p>}
-            <button
-                onClick={handleVisualize}
-                disabled={isGenerating || (!selectedHair && !selectedBeard)}
-                className={`w-full max-w-md py-4 rounded-xl font-bold text-lg transition-all flex items-center justify-center gap-2
-                ${isGenerating || (!selectedHair && !selectedBeard)
-                    ? 'bg-gray-800 text-gray-500 cursor-not-allowed' 
-                    : 'bg-gradient-to-r from-primary to-yellow-500 text-secondary hover:shadow-lg hover:scale-[1.02]'}
-                `}
-            >
-                {isGenerating ? (
-                <>
-                    <Loader2 className="w-6 h-6 animate-spin" />
-                    Generating Custom Look...
-                </>
-                ) : (
-                <>
-                    <Sparkles className="w-6 h-6" />
-                    Visualize Custom Look
-                </>
-                )}
-            </button>
+            {job && isGenerating ? (
+              <GenerationProgress
+                job={job}
+                onCancel={() => cancelPreview(jobKey)}
+                runningLabel="Generating Custom Look..."
+                className="max-w-md py-4"
+              />
+            ) : (
+              <button
+                  onClick={handleVisualize}
+                  disabled={!selectedHair && !selectedBeard}
+                  className={`w-full max-w-md py-4 rounded-xl font-bold text-lg transition-all flex items-center justify-center gap-2
+                  ${!selectedHair && !selectedBeard
+                      ? 'bg-gray-800 text-gray-500 cursor-not-allowed' 
+                      : 'bg-gradient-to-r from-primary to-yellow-500 text-secondary hover:shadow-lg hover:scale-[1.02]'}
+                  `}
+              >
+                  <Sparkles className="w-6 h-6" />
+                  Visualize Custom Look
+              </button>
+            )}
         </div>
       )}
 
-      {/* Result Display with Slider */}
+      {/* Result Display with Comparison Viewer */}
       {generatedImage && (
         <div className="animate-fade-in bg-black/40 p-4 rounded-xl border border-gray-800">
              <div className="mb-4 flex justify-between items-center">
@@ -268,61 +323,20 @@ export const StylePlayground: React.FC<StylePlaygroundProps> = ({ hairstyles, fa
                  </button>
              </div>
              
-             <div 
-               ref={containerRef}
-               className="relative rounded-lg overflow-hidden border border-gray-700 aspect-square group select-none max-w-2xl mx-auto"
-             >
-                {/* 1. Background: Original Image */}
-                <img 
-                  src={originalImageBase64} 
-                  alt="Original" 
-                  className="absolute inset-0 w-full h-full object-cover"
-                />
+             <ComparisonViewer
+               originalImage={originalImageBase64}
+               images={lookComparisonImages(variations, refinement)}
+               primaryKey={refinement.currentImage ? undefined : variations.selected?.key}
+               className="max-w-2xl mx-auto"
+             />
 
-                {/* 2. Foreground: Generated Image (Clipped) */}
-                <div 
-                  className="absolute inset-0 overflow-hidden"
-                  style={{ width: `${sliderPosition}%` }}
-                >
-                  <img 
-                    src={generatedImage} 
-                    alt="Generated" 
-                    className="absolute inset-0 h-full max-w-none object-cover"
-                    style={{ 
-                      width: containerWidth ? `${containerWidth}px` : '100%',
-                      opacity: containerWidth ? 1 : 0 
-                    }}
-                  />
-                </div>
+             <div className="mt-4 max-w-2xl mx-auto">
+               <IdentityWarning check={displayedIdentity} onRegenerate={refinement.steps.length === 0 ? handleRegenerate : undefined} />
+             </div>
 
-                {/* 3. Slider Handle */}
-                <div 
-                   className="absolute inset-y-0 w-1 bg-white cursor-ew-resize shadow-[0_0_10px_2px_rgba(0,0,0,0.5)] z-20"
-                   style={{ left: `${sliderPosition}%` }}
-                >
-                  <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 bg-white rounded-full flex items-center justify-center shadow-lg border-2 border-primary text-primary">
-                     <ChevronsLeftRight size={16} />
-                  </div>
-                </div>
-                
-                {/* 4. Labels */}
-                <div className="absolute top-2 left-2 bg-black/60 backdrop-blur-sm text-primary text-[10px] px-2 py-1 rounded z-10 font-bold border border-primary/20">
-                  AFTER
-                </div>
-                <div className="absolute top-2 right-2 bg-black/60 backdrop-blur-sm text-gray-300 text-[10px] px-2 py-1 rounded z-10 font-bold">
-                  BEFORE
-                </div>
+             <VariationStrip state={variations} className="mt-4 max-w-2xl mx-auto" />
 
-                {/* 5. Invisible Input for Interaction */}
-                <input 
-                  type="range" 
-                  min="0" 
-                  max="100" 
-                  value={sliderPosition} 
-                  onChange={handleSliderChange}
-                  className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize z-30"
-                />
-             </div>
+             <RefinementPanel refinement={refinement} className="mt-4 max-w-2xl mx-auto" />
 
              <div className="flex gap-2 mt-4 max-w-2xl mx-auto">
               <button 
@@ -332,6 +346,36 @@ export const StylePlayground: React.FC<StylePlaygroundProps> = ({ hairstyles, fa
                 <Share2 className="w-3 h-3" />
                 Share Custom Look
               </button>
+              <ShareLinkButton
+                getLook={() => generatedCombination && buildSharedLook(generatedCombination, analysis, lookImage)}
+              />
+              <button
+                onClick={handleSaveLook}
+                disabled={isSaved}
+                className={`py-3 px-3 rounded-lg text-xs font-medium transition-colors flex items-center gap-1 border ${
+                  isSaved
+                    ? 'bg-red-500/20 text-red-400 border-red-500/30'
+                    : 'bg-secondary border-gray-600 text-gray-400 hover:text-red-400 hover:border-gray-500'
+                }`}
+              >
+                <Heart className={`w-3 h-3 ${isSaved ? 'fill-current' : ''}`} />
+                {isSaved ? 'Saved' : 'Save Look'}
+              </button>
+              <button
+                onClick={() => setShowBarberSheet(true)}
+                className="py-3 px-3 bg-secondary border border-gray-600 text-gray-400 rounded-lg text-xs font-medium hover:text-primary hover:border-gray-500 transition-colors flex items-center gap-1"
+              >
+                <ClipboardList className="w-3 h-3" />
+                Barber Sheet
+              </button>
+              <button
+                onClick={handleRegenerate}
+                className="py-3 px-3 bg-secondary border border-gray-600 text-gray-400 rounded-lg text-xs font-medium hover:text-white hover:border-gray-500 transition-colors flex items-center gap-1"
+                title="Regenerate the variation on screen"
+              >
+                <RefreshCw className="w-3 h-3" />
+                Regenerate
+              </button>
               <button 
                 onClick={handleReset}
                 className="py-3 px-3 bg-secondary border border-gray-600 text-gray-400 rounded-lg text-xs font-medium hover:text-white hover:border-gray-500 transition-colors"
@@ -341,6 +385,20 @@ export const StylePlayground: React.FC<StylePlaygroundProps> = ({ hairstyles, fa
             </div>
         </div>
       )}
+
+      {showBarberSheet && generatedCombination && (
+        <BarberHandoffSheet
+          combination={generatedCombination}
+          beforeImage={originalImageBase64}
+          afterImage={lookImage}
+          hairSpec={findStyleSpec(analysis?.hairstyles, generatedCombination.hairstyle)}
+          beardSpec={findStyleSpec(analysis?.facialHair, generatedCombination.facialHair)}
+          faceShape={analysis?.faceShape}
+          faceAnalysis={analysis?.faceAnalysis}
+          groomingTips={analysis?.groomingTips}
+          onClose={() => setShowBarberSheet(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { EditRegion } from '../types';
+import { Scissors, User, Layers, Wand2, XCircle } from 'lucide-react';
+import { getModeDefinition } from '../services/analysisModes';
+import { describeCombination, lookEditRegions } from '../services/lookPrompts';
+import { isPreviewOf } from '../services/historyStore';
+import {
+  enqueuePreview,
+  cancelPreviews,
+  getGenerationJob,
+  isJobPending,
+  subscribeToGenerationQueue,
+} from '../services/generationQueue';
+import { StylePlayground } from './StylePlayground';
+import { CombinationCard } from './CombinationCard';
+import { ResultCard } from './ResultCard';
+import { ModeResultsProps } from './modeViews';
+
+interface PreviewRequest {
+  key: string;
+  description: string;
+  editRegions: EditRegion[];
+  hasPreview: boolean;
+}
+
+interface VisualizeAllProps {
+  requests: PreviewRequest[];
+  originalImageBase64: string;
+}
+
+// Queues every look without a preview; the cards pick up results from the queue as they finish
+const VisualizeAll: React.FC<VisualizeAllProps> = ({ requests, originalImageBase64 }) => {
+  const [, setQueueVersion] = useState(0);
+  useEffect(() => subscribeToGenerationQueue(() => setQueueVersion(version => version + 1)), []);
+
+  const pendingKeys = requests.filter(request => isJobPending(getGenerationJob(request.key))).map(request => request.key);
+  const remaining = requests.filter(request => !request.hasPreview && !pendingKeys.includes(request.key));
+
+  if (remaining.length === 0 && pendingKeys.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap justify-center gap-3 mt-6">
+      {remaining.length > 0 && (
+        <button
+          onClick={() => remaining.forEach(request => enqueuePreview(request.key, originalImageBase64, request.description, { editRegions: request.editRegions }))}
+          className="px-5 py-2.5 rounded-full bg-primary text-secondary text-sm font-bold hover:bg-yellow-500 transition-colors flex items-center gap-2"
+        >
+          <Wand2 className="w-4 h-4" />
+          Visualize All ({remaining.length})
+        </button>
+      )}
+      {pendingKeys.length > 0 && (
+        <button
+          onClick={() => cancelPreviews(pendingKeys)}
+          className="px-5 py-2.5 rounded-full border border-gray-600 text-gray-300 text-sm font-medium hover:bg-gray-800 transition-colors flex items-center gap-2"
+        >
+          <XCircle className="w-4 h-4" />
+          Cancel {pendingKeys.length} in progress
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Results for the hairstyle, facial hair and complete makeover modes
+export const StyleResults: React.FC<ModeResultsProps> = ({ analysis, mode, originalImageBase64, sessionKey, previews, onPreviewGenerated }) => {
+  // By position: the model can suggest two looks with the same name
+  const comboKey = (index: number) => `combination-${index}`;
+  const comboJobKey = (index: number) => `${sessionKey}:${comboKey(index)}`;
+  const previewFor = (index: number, name: string) => previews.find(preview => isPreviewOf(preview, comboKey(index), name))?.imageUrl;
+
+  return (
+    <>
+      {/* STYLE PLAYGROUND */}
+      <StylePlayground 
+        key={sessionKey}
+        hairstyles={analysis.hairstyles} 
+        facialHair={analysis.facialHair} 
+        originalImageBase64={originalImageBase64} 
+        analysis={analysis}
+        jobKey={`${sessionKey}:playground`}
+        previews={previews}
+        onPreviewGenerated={onPreviewGenerated}
+      />
+
+      {/* Curated Combinations Section (All Modes) */}
+      {analysis.combinations && analysis.combinations.length > 0 && (
+        <div className="space-y-8">
+          <div className="flex flex-col items-center text-center mb-8">
+              <div className="p-3 bg-primary/10 rounded-full text-primary mb-4">
+                <Layers className="w-8 h-8" />
+              </div>
+              <h3 className="text-3xl font-bold text-white">{getModeDefinition(mode).combinationTitle}</h3>
+              <p className="text-gray-400 mt-2 max-w-xl">
+                Our AI has selected specific styles that work perfectly for your face shape. Click "Visualize" to see them on you.
+              </p>
+              <VisualizeAll
+                originalImageBase64={originalImageBase64}
+                requests={analysis.combinations.map((combo, idx) => ({
+                  key: comboJobKey(idx),
+                  description: describeCombination(combo),
+                  editRegions: lookEditRegions(combo.hairstyle, combo.facialHair),
+                  hasPreview: !!previewFor(idx, combo.name),
+                }))}
+              />
+          </div>
+        
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {analysis.combinations.map((combo, idx) => (
+                <CombinationCard 
+                  key={`${sessionKey}-${idx}`} 
+                  combination={combo} 
+                  originalImageBase64={originalImageBase64} 
+                  analysis={analysis}
+                  jobKey={comboJobKey(idx)}
+                  initialImage={previewFor(idx, combo.name)}
+                  onPreviewGenerated={(imageUrl) => onPreviewGenerated(comboKey(idx), combo.name, imageUrl)}
+                />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Individual Recommendations Grid */}
+      <div className="grid lg:grid-cols-2 gap-12 border-t border-gray-800 pt-12">
+      
+        {/* Hairstyles (Conditional Render) */}
+        {analysis.hairstyles.length > 0 && (
+          <div className={`space-y-6 ${analysis.facialHair.length === 0 ? 'lg:col-span-2' : ''}`}>
+            <div className="flex items-center gap-3 mb-4">
+              <div className="p-2 bg-primary/10 rounded-lg text-primary">
+                <Scissors className="w-6 h-6" />
+              </div>
+              <h3 className="text-2xl font-bold text-white">Recommended Hairstyles</h3>
+            </div>
+            <div className={`grid gap-6 ${analysis.facialHair.length === 0 ? 'md:grid-cols-2' : ''}`}>
+              {analysis.hairstyles.map((style, idx) => (
+                <ResultCard key={idx} recommendation={style} type="hair" />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Beards / Facial Hair (Conditional Render) */}
+        {analysis.facialHair.length > 0 && (
+          <div className={`space-y-6 ${analysis.hairstyles.length === 0 ? 'lg:col-span-2' : ''}`}>
+            <div className="flex items-center gap-3 mb-4">
+              <div className="p-2 bg-primary/10 rounded-lg text-primary">
+                <User className="w-6 h-6" />
+              </div>
+              <h3 className="text-2xl font-bold text-white">Facial Hair Options</h3>
+            </div>
+            <div className={`grid gap-6 ${analysis.hairstyles.length === 0 ? 'md:grid-cols-2' : ''}`}>
+              {analysis.facialHair.map((style, idx) => (
+                <ResultCard key={idx} recommendation={style} type="beard" />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Loader2, Plus, RefreshCw, Star, AlertCircle, AlertTriangle } from 'lucide-react';
+import { isJobPending } from '../services/generationQueue';
+import { PreviewVariationsState, VARIATION_BATCH_SIZE } from './usePreviewVariations';
+
+interface VariationStripProps {
+  state: PreviewVariationsState;
+  className?: string;
+}
+
+// Selectable thumbnails of every attempt at a look, with pin, per-variation regenerate and "more"
+export const VariationStrip: React.FC<VariationStripProps> = ({ state, className = '' }) => {
+  const { variations, jobs, selected, favourite, canAddMore } = state;
+
+  return (
+    <div className={`flex items-center gap-2 overflow-x-auto pb-1 ${className}`}>
+      {variations.map((variation, index) => {
+        const job = jobs[variation.key];
+        const isSelected = variation.key === selected?.key;
+        const isFavourite = variation.key === favourite?.key;
+        return (
+          <div key={variation.key} className="relative flex-shrink-0 group/variation">
+            <button
+              onClick={() => variation.imageUrl && state.select(variation.key)}
+              disabled={!variation.imageUrl}
+              className={`w-14 h-14 rounded-lg overflow-hidden border-2 transition-all flex items-center justify-center bg-secondary ${
+                isSelected ? 'border-primary' : 'border-gray-700 hover:border-gray-500'
+              }`}
+              aria-label={`Show variation ${index + 1}`}
+              title={variation.seed === undefined ? 'Variation 1' : `Variation ${index + 1} (seed ${variation.seed})`}
+            >
+              {variation.imageUrl ? (
+                <img src={variation.imageUrl} alt={`Variation ${index + 1}`} className="w-full h-full object-cover" />
+              ) : isJobPending(job) ? (
+                <Loader2 className="w-4 h-4 text-primary animate-spin" />
+              ) : (
+                <AlertCircle className="w-4 h-4 text-gray-600" />
+              )}
+            </button>
+            {variation.imageUrl && (
+              <button
+                onClick={() => state.pin(variation.key)}
+                className={`absolute -top-1.5 -left-1.5 p-0.5 rounded-full bg-black/80 transition-opacity ${
+                  isFavourite ? 'text-primary' : 'text-gray-400 opacity-0 group-hover/variation:opacity-100'
+                }`}
+                aria-label={isFavourite ? 'Favourite variation' : 'Pin as favourite'}
+                title={isFavourite ? 'Favourite (saved and shared)' : 'Pin as favourite'}
+              >
+                <Star className={`w-3 h-3 ${isFavourite ? 'fill-current' : ''}`} />
+              </button>
+            )}
+            {variation.identity && !variation.identity.passed && (
+              <span
+                className="absolute -bottom-1.5 -right-1.5 p-0.5 rounded-full bg-black/80 text-yellow-400"
+                title={variation.identity.issues.join(' ')}
+              >
+                <AlertTriangle className="w-3 h-3" />
+              </span>
+            )}
+            {!isJobPending(job) && (
+              <button
+                onClick={() => state.regenerateVariation(variation.key)}
+                className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-black/80 text-gray-400 hover:text-white opacity-0 group-hover/variation:opacity-100 transition-opacity"
+                aria-label={`Regenerate variation ${index + 1}`}
+                title="Regenerate this variation"
+              >
+                <RefreshCw className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+      {canAddMore && (
+        <button
+          onClick={() => state.addVariations()}
+          className="flex-shrink-0 h-14 px-3 rounded-lg border border-dashed border-gray-600 text-gray-400 hover:text-primary hover:border-primary/50 text-[10px] font-medium flex flex-col items-center justify-center gap-0.5 transition-colors"
+          title={`Generate ${VARIATION_BATCH_SIZE} more takes on this look`}
+        >
+          <Plus className="w-4 h-4" />
+          More
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Scissors, User, Sparkles, Palette, Eye, Glasses, LucideIcon } from 'lucide-react';
+import { AnalysisMode, AnalysisResult, GeneratedPreview } from '../types';
+import { StyleResults } from './StyleResults';
+import { FeatureResults } from './FeatureResults';
+
+export interface ModeResultsProps {
+  analysis: AnalysisResult;
+  mode: AnalysisMode;
+  originalImageBase64: string;
+  // Resets per-session component state when the session changes
+  sessionKey: string;
+  previews: GeneratedPreview[];
+  // `key` identifies the look within the session; `label` is its display name
+  onPreviewGenerated: (key: string, label: string, imageUrl: string) => void;
+}
+
+export interface ModeView {
+  icon: LucideIcon;
+  Results: React.FC<ModeResultsProps>;
+}
+
+// UI half of the mode registry in services/analysisModes
+export const MODE_VIEWS: Record<AnalysisMode, ModeView> = {
+  [AnalysisMode.HAIRSTYLE_ONLY]: { icon: Scissors, Results: StyleResults },
+  [AnalysisMode.FACIAL_HAIR_ONLY]: { icon: User, Results: StyleResults },
+  [AnalysisMode.COMPLETE]: { icon: Sparkles, Results: StyleResults },
+  [AnalysisMode.HAIR_COLOR]: { icon: Palette, Results: FeatureResults },
+  [AnalysisMode.EYEBROWS]: { icon: Eye, Results: FeatureResults },
+  [AnalysisMode.EYEWEAR]: { icon: Glasses, Results: FeatureResults },
+};
+
+export const getModeView = (mode: AnalysisMode): ModeView => MODE_VIEWS[mode] ?? MODE_VIEWS[AnalysisMode.COMPLETE];
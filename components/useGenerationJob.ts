@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { GenerationJob } from '../types';
+import { getGenerationJob, subscribeToGenerationQueue } from '../services/generationQueue';
+
+// Live state of the queued preview for `key`; undefined until something is queued under it
+export const useGenerationJob = (key: string): GenerationJob | undefined => {
+  const [job, setJob] = useState(() => getGenerationJob(key));
+
+  useEffect(() => {
+    const sync = () => setJob(getGenerationJob(key));
+    sync();
+    return subscribeToGenerationQueue(sync);
+  }, [key]);
+
+  return job;
+};
+
+// Same as useGenerationJob for several keys at once, indexed by key
+export const useGenerationJobs = (keys: string[]): Record<string, GenerationJob | undefined> => {
+  const keyList = keys.join('\n');
+  const read = () => Object.fromEntries(keys.map(key => [key, getGenerationJob(key)]));
+  const [jobs, setJobs] = useState(read);
+
+  useEffect(() => {
+    const sync = () => setJobs(read());
+    sync();
+    return subscribeToGenerationQueue(sync);
+  }, [keyList]);
+
+  return jobs;
+};
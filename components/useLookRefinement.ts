@@ -0,0 +1,82 @@
+import { useState, useEffect, useRef } from 'react';
+import { EditRegion, GenerationJob, RefinementStep } from '../types';
+import { enqueueRefinement, cancelPreview, getGenerationJob, isJobPending } from '../services/generationQueue';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { createId } from '../services/db';
+import { useGenerationJob } from './useGenerationJob';
+
+export interface LookRefinementState {
+  steps: RefinementStep[];
+  // Latest refined image, or null while the base preview is untouched
+  currentImage: string | null;
+  job?: GenerationJob;
+  isPending: boolean;
+  error: string | null;
+  canRefine: boolean;
+  submit: (instruction: string) => Promise<void>;
+  undo: () => void;
+  clear: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Follow-up edits ("shorter on the sides") applied one after another on top of `baseImage`,
+ * with every intermediate image kept for undo. Switching to another base image starts over.
+ */
+export const useLookRefinement = (
+  jobKey: string,
+  originalBase64: string,
+  lookDescription: string | null,
+  editRegions: EditRegion[],
+  baseImage: string | null,
+): LookRefinementState => {
+  const key = `${jobKey}:refine`;
+  const [steps, setSteps] = useState<RefinementStep[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const job = useGenerationJob(key);
+  const isPending = isJobPending(job);
+  // Results for a base image the user has since moved away from are dropped
+  const baseRef = useRef(baseImage);
+
+  useEffect(() => {
+    baseRef.current = baseImage;
+    setSteps([]);
+    setError(null);
+    cancelPreview(key);
+  }, [baseImage]);
+
+  const currentImage = steps.length > 0 ? steps[steps.length - 1].imageUrl : null;
+
+  const submit = async (instruction: string) => {
+    const trimmed = instruction.trim();
+    if (!trimmed || !baseImage || !lookDescription || isPending) return;
+    setError(null);
+    try {
+      const imageUrl = await enqueueRefinement(key, currentImage ?? baseImage, trimmed, {
+        originalBase64,
+        lookDescription,
+        previousInstructions: steps.map(step => step.instruction),
+      }, { editRegions });
+      if (baseRef.current !== baseImage) return;
+      const identity = getGenerationJob(key)?.identity;
+      setSteps(current => [...current, { id: createId(), instruction: trimmed, imageUrl, identity }]);
+    } catch (err) {
+      if (isCancelled(err)) return;
+      console.error(err);
+      setError(getErrorMessage(err, 'preview'));
+    }
+  };
+
+  return {
+    steps,
+    currentImage,
+    job,
+    isPending,
+    error,
+    canRefine: !!baseImage && !!lookDescription,
+    submit,
+    undo: () => setSteps(current => current.slice(0, -1)),
+    clear: () => setSteps([]),
+    cancel: () => cancelPreview(key),
+  };
+};
@@ -0,0 +1,117 @@
+import { useState, useEffect, useRef } from 'react';
+import { EditRegion, GenerationJob, PreviewVariation } from '../types';
+import { enqueuePreview, cancelPreviews, isJobPending } from '../services/generationQueue';
+import { useGenerationJobs } from './useGenerationJob';
+
+// Variations added per "More variations" click
+export const VARIATION_BATCH_SIZE = 3;
+const MAX_VARIATIONS = 8;
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+export interface PreviewVariationsState {
+  variations: PreviewVariation[];
+  jobs: Record<string, GenerationJob | undefined>;
+  // Variation shown in the slider, and the favourite that gets saved and shared
+  selected?: PreviewVariation;
+  favourite?: PreviewVariation;
+  isPending: boolean;
+  canAddMore: boolean;
+  select: (key: string) => void;
+  pin: (key: string) => void;
+  addVariations: (count?: number) => void;
+  regenerateVariation: (key: string) => void;
+  cancelAll: () => void;
+  reset: () => void;
+}
+
+/**
+ * Strip of preview attempts for one look. The first variation lives under `jobKey`, so
+ * whoever queues that key (the card, "Visualize all", the playground) fills it; extra
+ * variations get their own seeded keys. `description` is the prompt for the current look and
+ * `editRegions` the parts of the photo it may change.
+ */
+export const usePreviewVariations = (
+  jobKey: string,
+  originalBase64: string,
+  description: string | null,
+  editRegions: EditRegion[],
+  initialImage?: string,
+): PreviewVariationsState => {
+  const [variations, setVariations] = useState<PreviewVariation[]>([{ key: jobKey, imageUrl: initialImage }]);
+  const [selectedKey, setSelectedKey] = useState(jobKey);
+  const [pinnedKey, setPinnedKey] = useState<string | null>(null);
+  const jobs = useGenerationJobs(variations.map(variation => variation.key));
+  // Last finished job taken per key, so Reset doesn't bring an image straight back
+  const adoptedJobIds = useRef<Record<string, string>>({});
+
+  useEffect(() => {
+    const finished = variations.filter(({ key }) => {
+      const job = jobs[key];
+      return job?.status === 'done' && job.imageUrl && adoptedJobIds.current[key] !== job.id;
+    });
+    if (finished.length === 0) return;
+    finished.forEach(({ key }) => { adoptedJobIds.current[key] = jobs[key]!.id; });
+    setVariations(current => current.map(variation => {
+      const job = jobs[variation.key];
+      return finished.some(({ key }) => key === variation.key) && job?.imageUrl
+        ? { ...variation, imageUrl: job.imageUrl, identity: job.identity }
+        : variation;
+    }));
+  }, [jobs]);
+
+  const withImage = variations.filter(variation => variation.imageUrl);
+  const favourite = withImage.find(variation => variation.key === pinnedKey) ?? withImage[0];
+  const selected = withImage.find(variation => variation.key === selectedKey) ?? favourite;
+  const isPending = variations.some(variation => isJobPending(jobs[variation.key]));
+
+  const addVariations = (count = VARIATION_BATCH_SIZE) => {
+    if (!description) return;
+    const added = Array.from({ length: Math.min(count, MAX_VARIATIONS - variations.length) }, () => {
+      const seed = randomSeed();
+      return { key: `${jobKey}:seed-${seed}`, seed };
+    });
+    setVariations(current => [...current, ...added]);
+    added.forEach(({ key, seed }) => enqueuePreview(key, originalBase64, description, { seed, editRegions }));
+  };
+
+  // The first variation is asked again past the cache; seeded ones are swapped for a fresh seed
+  const regenerateVariation = (key: string) => {
+    if (!description) return;
+    if (key === jobKey) {
+      setVariations(current => current.map(variation => variation.key === key ? { ...variation, imageUrl: undefined } : variation));
+      enqueuePreview(jobKey, originalBase64, description, { regenerate: true, editRegions });
+      return;
+    }
+    const seed = randomSeed();
+    const replacement = { key: `${jobKey}:seed-${seed}`, seed };
+    setVariations(current => current.map(variation => variation.key === key ? replacement : variation));
+    if (selectedKey === key) setSelectedKey(replacement.key);
+    if (pinnedKey === key) setPinnedKey(replacement.key);
+    enqueuePreview(replacement.key, originalBase64, description, { seed, editRegions });
+  };
+
+  const cancelAll = () => cancelPreviews(variations.map(variation => variation.key));
+
+  const reset = () => {
+    cancelPreviews(variations.filter(variation => variation.key !== jobKey).map(variation => variation.key));
+    setVariations([{ key: jobKey }]);
+    setSelectedKey(jobKey);
+    setPinnedKey(null);
+  };
+
+  return {
+    variations,
+    jobs,
+    selected,
+    favourite,
+    isPending,
+    canAddMore: !!description && variations.length < MAX_VARIATIONS,
+    select: setSelectedKey,
+    pin: setPinnedKey,
+    addVariations,
+    regenerateVariation,
+    cancelAll,
+    reset,
+  };
+};
@@ -0,0 +1,34 @@
+// Downloads the on-device MediaPipe models into public/mediapipe. Runs before `dev` and `build`
+// and skips files that are already there; a failed download only warns, and the app then
+// reports the missing model instead of running the check that needs it.
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const TARGET_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../public/mediapipe");
+
+const MODELS = [
+  {
+    file: "face_landmarker.task",
+    url: "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task",
+  },
+  {
+    file: "selfie_multiclass_256x256.tflite",
+    url: "https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_multiclass_256x256/float32/latest/selfie_multiclass_256x256.tflite",
+  },
+];
+
+mkdirSync(TARGET_DIR, { recursive: true });
+
+for (const { file, url } of MODELS) {
+  const target = path.join(TARGET_DIR, file);
+  if (existsSync(target)) continue;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+    console.log(`Downloaded ${file}`);
+  } catch (err) {
+    console.warn(`Could not download ${file} (${err.message}). On-device checks that need it stay off until it is in public/mediapipe.`);
+  }
+}
@@ -0,0 +1,198 @@
+import { Type, Schema } from "@google/genai";
+import { AnalysisMode, StyleCategory } from "../types";
+import { getCatalogNames } from "./styleCatalog";
+
+// Result lists a mode can ask the model to fill; anything outside a mode's sections comes back empty
+export type ResultSection = "hairstyles" | "facialHair" | "combinations" | "hairColors" | "eyebrows" | "eyewear";
+
+// Sections that recommend a single feature and are visualized on their own
+export type FeatureSection = Extract<ResultSection, "hairColors" | "eyebrows" | "eyewear">;
+
+export interface AnalysisModeDefinition {
+  mode: AnalysisMode;
+  // Mode picker button
+  label: string;
+  // Session names and history rows
+  shortLabel: string;
+  loadingHint: string;
+  // Appended to the system instruction as CURRENT MODE
+  prompt: string;
+  sections: ResultSection[];
+  // Scalar fields the mode adds next to its sections (e.g. skin undertone)
+  extraSchema?: Record<string, Schema>;
+  combinationTitle?: string;
+}
+
+const DIFFICULTY_VALUES = ["Easy", "Moderate", "Advanced"];
+
+// Shared by hair and beard specs
+const MAINTENANCE_PROPERTIES: Record<string, Schema> = {
+  maintenanceInterval: { type: Type.STRING, description: "How often it needs a trim to hold its shape (e.g. 'Every 3-4 weeks')." },
+  difficulty: { type: Type.STRING, enum: DIFFICULTY_VALUES, description: "Daily styling effort for the wearer." },
+};
+
+const HAIR_SPEC_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  description: "Cutting instructions for a barber.",
+  properties: {
+    topLength: { type: Type.STRING, description: "Length on top (e.g. '5-7cm, point cut')." },
+    sideLength: { type: Type.STRING, description: "Length on the sides." },
+    backLength: { type: Type.STRING, description: "Length at the back." },
+    clipperGuard: { type: Type.STRING, description: "Clipper guard numbers for sides and back (e.g. '#1 to #3')." },
+    fadeType: { type: Type.STRING, description: "Fade or taper type (e.g. 'Skin fade', 'Taper', 'None')." },
+    fadeHeight: { type: Type.STRING, description: "Where the fade starts (e.g. 'Low', 'Mid', 'High')." },
+    neckline: { type: Type.STRING, description: "Neckline shape (e.g. 'Tapered', 'Rounded', 'Squared')." },
+    ...MAINTENANCE_PROPERTIES,
+  },
+};
+
+const BEARD_SPEC_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  description: "Trimming instructions for a barber.",
+  properties: {
+    beardLength: {
+      type: Type.OBJECT,
+      description: "Length per zone, in mm with the guard number where relevant.",
+      properties: {
+        cheeks: { type: Type.STRING },
+        jawline: { type: Type.STRING },
+        chin: { type: Type.STRING },
+        mustache: { type: Type.STRING },
+      },
+    },
+    clipperGuard: { type: Type.STRING, description: "Main trimmer guard number(s)." },
+    neckline: { type: Type.STRING, description: "Beard neckline shape and position." },
+    ...MAINTENANCE_PROPERTIES,
+  },
+};
+
+const CONSTRAINT_FIT_SCHEMA: Schema = {
+  type: Type.STRING,
+  description: "One sentence on how this respects the user's stated preferences. Empty when none were given.",
+};
+
+// Gemini emits properties alphabetically unless told otherwise; streamed results need the name first
+export const orderedObject = (properties: Record<string, Schema>, required: string[]): Schema => ({
+  type: Type.OBJECT,
+  properties,
+  propertyOrdering: Object.keys(properties),
+  required,
+});
+
+const recommendationList = (description: string, itemName: string, extraProperties: Record<string, Schema> = {}): Schema => ({
+  type: Type.ARRAY,
+  description,
+  items: orderedObject(
+    {
+      name: { type: Type.STRING, description: `Name of the ${itemName}.` },
+      description: { type: Type.STRING, description: `Description of the ${itemName}.` },
+      reasoning: { type: Type.STRING, description: "Why this suits the user." },
+      ...extraProperties,
+      constraintFit: CONSTRAINT_FIT_SCHEMA,
+    },
+    ["name", "description", "reasoning"],
+  ),
+});
+
+// Hair and beard names are limited to the style catalog so every result has a reference photo
+const catalogName = (category: StyleCategory): Schema => ({
+  type: Type.STRING,
+  enum: getCatalogNames(category),
+  description: "Catalog name of the style.",
+});
+
+export const SECTION_SCHEMAS: Record<ResultSection, Schema> = {
+  hairstyles: recommendationList("Recommended hairstyles.", "hairstyle", {
+    name: catalogName("hair"),
+    spec: HAIR_SPEC_SCHEMA,
+  }),
+  facialHair: recommendationList("Recommended beard or facial hair styles.", "facial hair style", {
+    name: catalogName("beard"),
+    spec: BEARD_SPEC_SCHEMA,
+  }),
+  combinations: {
+    type: Type.ARRAY,
+    description: "Recommended combinations.",
+    items: orderedObject(
+      {
+        name: { type: Type.STRING, description: "Creative name for the combination." },
+        hairstyle: { type: Type.STRING, description: "The specific hairstyle used in this combination, spelled exactly as in the hairstyles list." },
+        facialHair: { type: Type.STRING, description: "The specific facial hair style used, spelled exactly as in the facial hair list." },
+        description: { type: Type.STRING, description: "Overall description of the look." },
+        reasoning: { type: Type.STRING, description: "Why this combination works together." },
+        constraintFit: CONSTRAINT_FIT_SCHEMA,
+      },
+      ["name", "hairstyle", "facialHair", "description", "reasoning"],
+    ),
+  },
+  hairColors: recommendationList("Recommended hair colors.", "hair color", {
+    swatch: { type: Type.STRING, description: "Approximate hex color of the shade, e.g. '#5A3A22'." },
+  }),
+  eyebrows: recommendationList("Recommended eyebrow shapes and grooming.", "eyebrow shape"),
+  eyewear: recommendationList("Recommended glasses frames.", "frame style"),
+};
+
+// Order is the order of the mode picker
+export const ANALYSIS_MODES: AnalysisModeDefinition[] = [
+  {
+    mode: AnalysisMode.HAIRSTYLE_ONLY,
+    label: "Hairstyle Only",
+    shortLabel: "Hairstyle",
+    loadingHint: "Scanning hairline and face shape.",
+    prompt: "FOCUS ONLY ON HAIRSTYLES. Populate 'hairstyles' with 4-5 options. Populate 'combinations' with 3 distinct hairstyle-only transformations (leave facialHair as empty string in combinations).",
+    sections: ["hairstyles", "combinations"],
+    combinationTitle: "Curated Hairstyle Looks",
+  },
+  {
+    mode: AnalysisMode.FACIAL_HAIR_ONLY,
+    label: "Facial Hair Only",
+    shortLabel: "Facial Hair",
+    loadingHint: "Analyzing jawline and facial density.",
+    prompt: "FOCUS ONLY ON FACIAL HAIR. Populate 'facialHair' with 4-5 options. Populate 'combinations' with 3 distinct facial-hair-only transformations (leave hairstyle as empty string in combinations).",
+    sections: ["facialHair", "combinations"],
+    combinationTitle: "Curated Beard & Stubble Looks",
+  },
+  {
+    mode: AnalysisMode.COMPLETE,
+    label: "Complete Makeover",
+    shortLabel: "Complete Makeover",
+    loadingHint: "Matching hairstyles and beard types.",
+    prompt: "Recommend 3-4 specific hairstyles, 3-4 specific facial hair styles, and 3 distinct 'Look Combinations' pairing them together.",
+    sections: ["hairstyles", "facialHair", "combinations"],
+    combinationTitle: "Curated Look Combinations",
+  },
+  {
+    mode: AnalysisMode.HAIR_COLOR,
+    label: "Hair Color",
+    shortLabel: "Hair Color",
+    loadingHint: "Reading skin undertone and contrast.",
+    prompt: "FOCUS ONLY ON HAIR COLOR. Judge the skin undertone (warm, cool or neutral) and contrast level from the photo, describe it in 'skinUndertone', and populate 'hairColors' with 4-5 shades (dye or highlights) that flatter it, each with an approximate hex 'swatch'. Explain the undertone match in 'reasoning'.",
+    sections: ["hairColors"],
+    extraSchema: {
+      skinUndertone: { type: Type.STRING, description: "Skin undertone and contrast, e.g. 'Warm, medium contrast'." },
+    },
+  },
+  {
+    mode: AnalysisMode.EYEBROWS,
+    label: "Eyebrow Grooming",
+    shortLabel: "Eyebrows",
+    loadingHint: "Mapping brow arch and eye spacing.",
+    prompt: "FOCUS ONLY ON EYEBROWS. Populate 'eyebrows' with 3-4 brow shapes or grooming approaches (thickness, arch position, tail length, tidying the unibrow) that balance the face shape and eye spacing. Describe exactly what to trim or leave in 'description'.",
+    sections: ["eyebrows"],
+  },
+  {
+    mode: AnalysisMode.EYEWEAR,
+    label: "Glasses Frames",
+    shortLabel: "Eyewear",
+    loadingHint: "Measuring face width and brow line.",
+    prompt: "FOCUS ONLY ON EYEWEAR. Populate 'eyewear' with 4-5 glasses frame styles (shape, rim, material, color) suited to the face shape, face width and brow line. Mention frame proportions in 'description'.",
+    sections: ["eyewear"],
+  },
+];
+
+// Unknown modes (e.g. from a newer saved session) fall back to the complete makeover
+export const getModeDefinition = (mode: AnalysisMode): AnalysisModeDefinition =>
+  ANALYSIS_MODES.find((definition) => definition.mode === mode) ??
+  ANALYSIS_MODES.find((definition) => definition.mode === AnalysisMode.COMPLETE)!;
+
+export const getModeLabel = (mode: AnalysisMode) => getModeDefinition(mode).shortLabel;
@@ -0,0 +1,360 @@
+import {
+  AnalysisResult,
+  AnalysisMode,
+  AngleObservation,
+  BeardZoneLengths,
+  CuttingSpec,
+  HairColorRecommendation,
+  ProfileAngle,
+  StyleDifficulty,
+  StyleRecommendation,
+  StyleCombination,
+  StyleAIErrorKind,
+  StyleCategory,
+  UserPreferences,
+} from "../types";
+import { StyleAIError } from "./errors";
+import { isExcludedStyle } from "./preferences";
+import { getModeDefinition, ResultSection } from "./analysisModes";
+import { findCatalogStyle } from "./styleCatalog";
+
+// Raised when a model response cannot be repaired into a usable AnalysisResult; the message is what the user sees
+export class AnalysisValidationError extends StyleAIError {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(StyleAIErrorKind.MALFORMED_RESPONSE, message, { userMessage: message });
+    this.name = "AnalysisValidationError";
+    this.issues = issues;
+  }
+}
+
+export const KNOWN_FACE_SHAPES = ["Oval", "Round", "Square", "Rectangle", "Oblong", "Diamond", "Heart", "Triangle"];
+
+// Common model phrasings mapped onto the canonical shape names
+const FACE_SHAPE_ALIASES: Record<string, string> = {
+  "long": "Oblong",
+  "elongated": "Oblong",
+  "rectangular": "Rectangle",
+  "squared": "Square",
+  "circular": "Round",
+  "inverted triangle": "Heart",
+  "pear": "Triangle",
+  "triangular": "Triangle",
+  "egg": "Oval",
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string => {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return "";
+};
+
+// Accepts arrays as-is, wraps single values and treats anything else as empty
+const asArray = (value: unknown, field: string, issues: string[]): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (value === undefined || value === null) {
+    issues.push(`'${field}' was missing; defaulted to an empty list.`);
+    return [];
+  }
+  issues.push(`'${field}' was not a list; coerced.`);
+  if (typeof value === "string") {
+    return value.split(/\n+/).map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "")).filter(Boolean);
+  }
+  return isRecord(value) ? [value] : [];
+};
+
+export const normalizeFaceShape = (raw: string): string => {
+  const lower = raw.toLowerCase().replace(/[-_]/g, " ").replace(/\bface\b|\bshape(d)?\b/g, "").replace(/\s+/g, " ").trim();
+  const direct = KNOWN_FACE_SHAPES.find((shape) => shape.toLowerCase() === lower);
+  if (direct) return direct;
+
+  const aliasKeys = Object.keys(FACE_SHAPE_ALIASES).sort((a, b) => b.length - a.length);
+  const alias = aliasKeys.find((key) => lower.includes(key));
+  if (alias) return FACE_SHAPE_ALIASES[alias];
+
+  // "Oval / Oblong" style answers: take the first recognised shape mentioned
+  const mentioned = KNOWN_FACE_SHAPES.find((shape) => lower.includes(shape.toLowerCase()));
+  if (mentioned) return mentioned;
+
+  return raw.trim().replace(/\b\w/g, (c) => c.toUpperCase());
+};
+
+const DIFFICULTY_ALIASES: Record<string, StyleDifficulty> = {
+  "easy": "Easy",
+  "low": "Easy",
+  "simple": "Easy",
+  "moderate": "Moderate",
+  "medium": "Moderate",
+  "intermediate": "Moderate",
+  "advanced": "Advanced",
+  "hard": "Advanced",
+  "high": "Advanced",
+};
+
+const SPEC_TEXT_FIELDS = [
+  "topLength",
+  "sideLength",
+  "backLength",
+  "clipperGuard",
+  "fadeType",
+  "fadeHeight",
+  "neckline",
+  "maintenanceInterval",
+] as const;
+
+const BEARD_ZONES = ["cheeks", "jawline", "chin", "mustache"] as const;
+
+// Keeps only the fields the model actually filled in; returns undefined for an empty spec
+export const normalizeCuttingSpec = (value: unknown): CuttingSpec | undefined => {
+  if (!isRecord(value)) return undefined;
+  const spec: CuttingSpec = {};
+  for (const field of SPEC_TEXT_FIELDS) {
+    const text = asString(value[field]);
+    if (text) spec[field] = text;
+  }
+  if (isRecord(value.beardLength)) {
+    const beardLength: BeardZoneLengths = {};
+    for (const zone of BEARD_ZONES) {
+      const text = asString(value.beardLength[zone]);
+      if (text) beardLength[zone] = text;
+    }
+    if (Object.keys(beardLength).length > 0) spec.beardLength = beardLength;
+  }
+  const difficulty = DIFFICULTY_ALIASES[asString(value.difficulty).toLowerCase()];
+  if (difficulty) spec.difficulty = difficulty;
+  return Object.keys(spec).length > 0 ? spec : undefined;
+};
+
+const normalizeRecommendation = (entry: unknown): StyleRecommendation | null => {
+  if (typeof entry === "string") {
+    return entry.trim() ? { name: entry.trim(), description: "", reasoning: "" } : null;
+  }
+  if (!isRecord(entry)) return null;
+  const name = asString(entry.name);
+  if (!name) return null;
+  const recommendation: StyleRecommendation = {
+    name,
+    description: asString(entry.description),
+    reasoning: asString(entry.reasoning),
+  };
+  const spec = normalizeCuttingSpec(entry.spec);
+  if (spec) recommendation.spec = spec;
+  const constraintFit = asString(entry.constraintFit);
+  if (constraintFit) recommendation.constraintFit = constraintFit;
+  return recommendation;
+};
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const normalizeHairColor = (entry: unknown): HairColorRecommendation | null => {
+  const recommendation = normalizeRecommendation(entry);
+  if (!recommendation || !isRecord(entry)) return recommendation;
+  const swatch = asString(entry.swatch);
+  return HEX_COLOR.test(swatch)
+    ? { ...recommendation, swatch: swatch.startsWith("#") ? swatch : `#${swatch}` }
+    : recommendation;
+};
+
+export const normalizeCombination = (entry: unknown): StyleCombination | null => {
+  if (!isRecord(entry)) return null;
+  const hairstyle = asString(entry.hairstyle);
+  const facialHair = asString(entry.facialHair);
+  if (!hairstyle && !facialHair) return null;
+  const combination: StyleCombination = {
+    name: asString(entry.name) || [hairstyle, facialHair].filter(Boolean).join(" + "),
+    description: asString(entry.description),
+    hairstyle,
+    facialHair,
+    reasoning: asString(entry.reasoning),
+  };
+  const constraintFit = asString(entry.constraintFit);
+  if (constraintFit) combination.constraintFit = constraintFit;
+  return combination;
+};
+
+const normalizeAngleObservation = (entry: unknown): AngleObservation | null => {
+  if (!isRecord(entry)) return null;
+  const angle = asString(entry.angle).toUpperCase().replace(/[\s-]+/g, "_");
+  if (!Object.values(ProfileAngle).includes(angle as ProfileAngle)) return null;
+  return {
+    angle: angle as ProfileAngle,
+    headShape: asString(entry.headShape),
+    jawProjection: asString(entry.jawProjection),
+    crown: asString(entry.crown),
+    neckline: asString(entry.neckline),
+    beardGrowth: asString(entry.beardGrowth),
+  };
+};
+
+const compact = <T>(items: (T | null)[]): T[] => items.filter((item): item is T => item !== null);
+
+export const parseAnalysisJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AnalysisValidationError("The analysis response was not valid JSON.", ["JSON parse failed"]);
+  }
+};
+
+/**
+ * Lenient read of a response that is still streaming, for progressive rendering only: it never
+ * throws or logs, and lists keep the entries whose name has arrived. The finished response
+ * still goes through validateAnalysisResult.
+ */
+export const readPartialAnalysis = (raw: unknown, mode: AnalysisMode, preferences?: UserPreferences): Partial<AnalysisResult> => {
+  const partial: Partial<AnalysisResult> = {};
+  if (!isRecord(raw) || raw.faceDetected === false) return partial;
+
+  const faceShape = asString(raw.faceShape);
+  if (faceShape) partial.faceShape = normalizeFaceShape(faceShape);
+  const faceAnalysis = asString(raw.faceAnalysis);
+  if (faceAnalysis) partial.faceAnalysis = faceAnalysis;
+  const skinUndertone = asString(raw.skinUndertone);
+  if (skinUndertone) partial.skinUndertone = skinUndertone;
+
+  const { sections } = getModeDefinition(mode);
+  const excluded = preferences?.excludedStyles ?? [];
+  // Undefined until the model starts the list, so the UI can tell "pending" from "empty"
+  const readSection = <T>(section: ResultSection, normalize: (entry: unknown) => T | null): T[] | undefined =>
+    sections.includes(section) && Array.isArray(raw[section]) ? compact((raw[section] as unknown[]).map(normalize)) : undefined;
+  const allowed = <T extends { name: string }>(items: T[] | undefined) =>
+    items?.filter((item) => !isExcludedStyle(item.name, excluded));
+
+  partial.hairstyles = allowed(readSection("hairstyles", normalizeRecommendation));
+  partial.facialHair = allowed(readSection("facialHair", normalizeRecommendation));
+  partial.combinations = readSection("combinations", normalizeCombination)?.filter(
+    (combo) => !isExcludedStyle(combo.hairstyle, excluded) && !isExcludedStyle(combo.facialHair, excluded),
+  );
+  partial.hairColors = allowed(readSection("hairColors", normalizeHairColor));
+  partial.eyebrows = allowed(readSection("eyebrows", normalizeRecommendation));
+  partial.eyewear = allowed(readSection("eyewear", normalizeRecommendation));
+  if (Array.isArray(raw.groomingTips)) partial.groomingTips = raw.groomingTips.map(asString).filter(Boolean);
+  return partial;
+};
+
+/**
+ * Mirrors the mode's response schema: repairs recoverable problems (missing or mistyped lists,
+ * entries that ignore the requested mode or the user's excluded styles, free-form
+ * face shapes) and throws AnalysisValidationError when nothing usable is left.
+ */
+export const validateAnalysisResult = (raw: unknown, mode: AnalysisMode, preferences?: UserPreferences): AnalysisResult => {
+  const issues: string[] = [];
+
+  if (!isRecord(raw)) {
+    throw new AnalysisValidationError("The analysis response was empty or malformed.", ["Response is not an object"]);
+  }
+
+  if (raw.faceDetected === false) {
+    throw new StyleAIError(StyleAIErrorKind.NO_FACE, "No face was detected in the uploaded image.");
+  }
+
+  const rawFaceShape = asString(raw.faceShape);
+  if (!rawFaceShape) {
+    throw new AnalysisValidationError("We couldn't determine your face shape from this photo.", ["'faceShape' missing"]);
+  }
+  const faceShape = normalizeFaceShape(rawFaceShape);
+  if (faceShape !== rawFaceShape) issues.push(`faceShape "${rawFaceShape}" normalized to "${faceShape}".`);
+
+  const { sections } = getModeDefinition(mode);
+  const wants = (section: ResultSection) => sections.includes(section);
+
+  // Lists outside the requested mode are dropped, whatever the model returned
+  const readSection = <T>(section: ResultSection, normalize: (entry: unknown) => T | null): T[] => {
+    const value = raw[section];
+    if (!wants(section)) {
+      if (Array.isArray(value) && value.length > 0) issues.push(`Removed '${section}' entries returned outside the requested mode.`);
+      return [];
+    }
+    return compact(asArray(value, section, issues).map(normalize));
+  };
+
+  // Aliases ("Skin Fade", "Stubble") are renamed to their catalog entry; names the catalog doesn't know are kept as-is
+  const toCatalogName = (name: string, category: StyleCategory) => {
+    if (!name) return name;
+    const entry = findCatalogStyle(name, category);
+    if (!entry) {
+      issues.push(`"${name}" is not in the style catalog.`);
+      return name;
+    }
+    return entry.name;
+  };
+  const withCatalogName = (category: StyleCategory) => (recommendation: StyleRecommendation) => ({
+    ...recommendation,
+    name: toCatalogName(recommendation.name, category),
+  });
+
+  let hairstyles = readSection("hairstyles", normalizeRecommendation).map(withCatalogName("hair"));
+  let facialHair = readSection("facialHair", normalizeRecommendation).map(withCatalogName("beard"));
+  // Single-focus modes keep only their half of each combination
+  let combinations = readSection("combinations", normalizeCombination)
+    .map((combo) => ({
+      ...combo,
+      hairstyle: wants("hairstyles") ? toCatalogName(combo.hairstyle, "hair") : "",
+      facialHair: wants("facialHair") ? toCatalogName(combo.facialHair, "beard") : "",
+    }))
+    .filter((combo) => combo.hairstyle || combo.facialHair);
+  let hairColors = readSection("hairColors", normalizeHairColor);
+  let eyebrows = readSection("eyebrows", normalizeRecommendation);
+  let eyewear = readSection("eyewear", normalizeRecommendation);
+  const groomingTips = asArray(raw.groomingTips, "groomingTips", issues).map(asString).filter(Boolean);
+
+  const countAll = () =>
+    hairstyles.length + facialHair.length + combinations.length + hairColors.length + eyebrows.length + eyewear.length;
+
+  // The prompt forbids excluded styles, but the model doesn't always listen
+  const excluded = preferences?.excludedStyles ?? [];
+  if (excluded.length > 0) {
+    const before = countAll();
+    const allowed = <T extends { name: string }>(items: T[]) => items.filter((item) => !isExcludedStyle(item.name, excluded));
+    hairstyles = allowed(hairstyles);
+    facialHair = allowed(facialHair);
+    hairColors = allowed(hairColors);
+    eyebrows = allowed(eyebrows);
+    eyewear = allowed(eyewear);
+    combinations = combinations.filter(
+      (combo) => !isExcludedStyle(combo.hairstyle, excluded) && !isExcludedStyle(combo.facialHair, excluded),
+    );
+    const removed = before - countAll();
+    if (removed > 0) issues.push(`Removed ${removed} entries matching excluded styles.`);
+  }
+
+  if (countAll() === 0) {
+    throw new AnalysisValidationError("The analysis didn't include any style recommendations.", [...issues, "No recommendations"]);
+  }
+
+  if (issues.length > 0) {
+    console.warn("Analysis response repaired:", issues);
+  }
+
+  const result: AnalysisResult = {
+    faceShape,
+    faceAnalysis: asString(raw.faceAnalysis),
+    hairstyles,
+    facialHair,
+    combinations,
+    groomingTips,
+  };
+  if (wants("hairColors")) {
+    result.hairColors = hairColors;
+    const skinUndertone = asString(raw.skinUndertone);
+    if (skinUndertone) result.skinUndertone = skinUndertone;
+  }
+  if (wants("eyebrows")) result.eyebrows = eyebrows;
+  if (wants("eyewear")) result.eyewear = eyewear;
+
+  // Optional section: only kept when the model actually described a profile view
+  const angleObservations = Array.isArray(raw.angleObservations)
+    ? compact(raw.angleObservations.map(normalizeAngleObservation))
+    : [];
+  if (angleObservations.length > 0) {
+    result.angleObservations = angleObservations;
+  }
+
+  return result;
+};
@@ -0,0 +1,265 @@
+import { CuttingSpec, StyleRecommendation } from "../types";
+
+// Barber instructions for the handoff sheet: the model's cutting spec when present,
+// otherwise typical values for the style family
+
+export interface CuttingGuideline {
+  label: string;
+  value: string;
+}
+
+interface GuideEntry {
+  keywords: string[];
+  guide: CuttingGuideline[];
+}
+
+const HAIR_GUIDES: GuideEntry[] = [
+  {
+    keywords: ['buzz', 'military', 'burr', 'high and tight'],
+    guide: [
+      { label: 'Top', value: 'Even all over, #2-#4 guard' },
+      { label: 'Sides & Back', value: '#1-#2 guard, or tapered to #0.5 for high and tight' },
+      { label: 'Neckline', value: 'Tapered, natural' },
+      { label: 'Finish', value: 'No product; optional light moisturiser' },
+    ],
+  },
+  {
+    keywords: ['crew', 'caesar', 'ivy league'],
+    guide: [
+      { label: 'Top', value: '2-4cm, slightly longer at the front' },
+      { label: 'Sides & Back', value: '#2-#3 guard, tapered' },
+      { label: 'Neckline', value: 'Tapered' },
+      { label: 'Finish', value: 'Matte paste, pushed forward or to the side' },
+    ],
+  },
+  {
+    keywords: ['fade', 'taper', 'skin'],
+    guide: [
+      { label: 'Top', value: '3-6cm, scissor cut with texture' },
+      { label: 'Sides & Back', value: 'Mid fade from #0 / skin up to #2-#3' },
+      { label: 'Neckline', value: 'Faded out, no hard line' },
+      { label: 'Finish', value: 'Matte clay for texture' },
+    ],
+  },
+  {
+    keywords: ['undercut', 'disconnected'],
+    guide: [
+      { label: 'Top', value: '8-12cm, kept disconnected from the sides' },
+      { label: 'Sides & Back', value: '#1-#2 guard, no blending into the top' },
+      { label: 'Neckline', value: 'Squared or tapered' },
+      { label: 'Finish', value: 'Pomade, slicked back or to the side' },
+    ],
+  },
+  {
+    keywords: ['pompadour', 'quiff', 'brush up', 'volume'],
+    guide: [
+      { label: 'Top', value: '7-10cm at the front, graduating shorter toward the crown' },
+      { label: 'Sides & Back', value: '#2-#3 guard, tapered or low fade' },
+      { label: 'Neckline', value: 'Tapered' },
+      { label: 'Finish', value: 'Blow-dry up and back, medium-hold pomade or clay' },
+    ],
+  },
+  {
+    keywords: ['side part', 'comb over', 'classic'],
+    guide: [
+      { label: 'Top', value: '5-8cm, longer on the heavy side' },
+      { label: 'Sides & Back', value: '#2-#4 guard, scissor-over-comb blend' },
+      { label: 'Part', value: 'Natural part line; hard part only if requested' },
+      { label: 'Finish', value: 'Light-hold cream or pomade' },
+    ],
+  },
+  {
+    keywords: ['slick'],
+    guide: [
+      { label: 'Top', value: '8-12cm, one length back' },
+      { label: 'Sides & Back', value: '#3-#4 guard or scissor cut, tapered' },
+      { label: 'Neckline', value: 'Tapered' },
+      { label: 'Finish', value: 'Water-based pomade, combed straight back' },
+    ],
+  },
+  {
+    keywords: ['crop', 'french', 'textured', 'fringe', 'bangs'],
+    guide: [
+      { label: 'Top', value: '3-5cm, point cut for texture; fringe left 2-4cm' },
+      { label: 'Sides & Back', value: 'Low to mid fade, #0.5-#2' },
+      { label: 'Fringe', value: 'Blunt or choppy, sitting above the brow' },
+      { label: 'Finish', value: 'Sea salt spray or matte paste' },
+    ],
+  },
+  {
+    keywords: ['spiky', 'faux hawk'],
+    guide: [
+      { label: 'Top', value: '4-6cm through the centre strip' },
+      { label: 'Sides & Back', value: '#1-#2 guard, tapered up into the strip' },
+      { label: 'Neckline', value: 'Tapered' },
+      { label: 'Finish', value: 'Strong-hold wax, pinched into points' },
+    ],
+  },
+  {
+    keywords: ['long', 'wavy', 'flow', 'surfer', 'bun', 'top knot'],
+    guide: [
+      { label: 'Top', value: 'Shoulder length or longer, long layers' },
+      { label: 'Sides & Back', value: 'Scissor cut; trim ends only, or undercut #2 for a bun' },
+      { label: 'Neckline', value: 'Left natural' },
+      { label: 'Finish', value: 'Leave-in conditioner, air dry' },
+    ],
+  },
+  {
+    keywords: ['curly', 'coils', 'afro'],
+    guide: [
+      { label: 'Top', value: 'Shape dry, following the curl pattern' },
+      { label: 'Sides & Back', value: 'Low taper #1-#2, or shaped even with the top' },
+      { label: 'Line-up', value: 'Soft natural hairline' },
+      { label: 'Finish', value: 'Curl cream, no brushing when dry' },
+    ],
+  },
+  {
+    keywords: ['braid', 'cornrow', 'plaits', 'dread', 'locs'],
+    guide: [
+      { label: 'Top', value: 'Keep current length for braiding / locs' },
+      { label: 'Sides & Back', value: 'Optional taper #1-#2 around the edges' },
+      { label: 'Line-up', value: 'Clean edge-up' },
+      { label: 'Finish', value: 'Light oil on the scalp' },
+    ],
+  },
+];
+
+const BEARD_GUIDES: GuideEntry[] = [
+  {
+    keywords: ['clean', 'shaven', 'none'],
+    guide: [
+      { label: 'Length', value: 'Full shave' },
+      { label: 'Method', value: 'Straight razor or foil shaver, with the grain' },
+      { label: 'Aftercare', value: 'Alcohol-free balm' },
+    ],
+  },
+  {
+    keywords: ['stubble', 'shadow', 'scruff'],
+    guide: [
+      { label: 'Length', value: '3-5mm all over' },
+      { label: 'Guard', value: '#0.5-#1 trimmer guard' },
+      { label: 'Cheek line', value: 'Natural, tidy strays only' },
+      { label: 'Neckline', value: 'Two fingers above the Adam’s apple, faded' },
+    ],
+  },
+  {
+    keywords: ['short beard', 'boxed', 'corporate', 'verdi'],
+    guide: [
+      { label: 'Length', value: '8-12mm, slightly shorter on the cheeks' },
+      { label: 'Guard', value: '#2-#3 on the jaw, #1-#2 on the cheeks' },
+      { label: 'Cheek line', value: 'Crisp, straight edge' },
+      { label: 'Neckline', value: 'Defined, one finger above the Adam’s apple' },
+    ],
+  },
+  {
+    keywords: ['full beard', 'lumberjack'],
+    guide: [
+      { label: 'Length', value: '2-5cm, shaped longer at the chin' },
+      { label: 'Guard', value: 'Scissor shaped; #4+ on the sides' },
+      { label: 'Cheek line', value: 'Natural, lightly cleaned' },
+      { label: 'Neckline', value: 'Rounded, tapered into the neck' },
+    ],
+  },
+  {
+    keywords: ['goatee', 'circle', 'van dyke', 'anchor'],
+    guide: [
+      { label: 'Length', value: '5-15mm on the chin; mustache trimmed to the lip' },
+      { label: 'Guard', value: '#1-#3 on the chin area' },
+      { label: 'Shape', value: 'Cheeks shaved clean; chin shape outlined with a trimmer' },
+      { label: 'Neckline', value: 'Shaved clean under the jaw' },
+    ],
+  },
+  {
+    keywords: ['balbo'],
+    guide: [
+      { label: 'Length', value: '5-10mm' },
+      { label: 'Guard', value: '#1-#2' },
+      { label: 'Shape', value: 'Floating mustache, chin strip and jaw patch; cheeks and sideburns shaved' },
+      { label: 'Neckline', value: 'Shaved clean' },
+    ],
+  },
+  {
+    keywords: ['mustache', 'moustache', 'stache', 'chevron'],
+    guide: [
+      { label: 'Length', value: 'Full mustache covering the top lip edge' },
+      { label: 'Guard', value: 'Scissor over comb' },
+      { label: 'Shape', value: 'Chevron: wide, following the top lip line' },
+      { label: 'Rest of face', value: 'Clean shaven' },
+    ],
+  },
+  {
+    keywords: ['mutton', 'chops', 'sideburn', 'burns'],
+    guide: [
+      { label: 'Length', value: '5-15mm on the sideburns' },
+      { label: 'Guard', value: '#2-#3' },
+      { label: 'Shape', value: 'Extended down to the jaw corner; chin shaved' },
+      { label: 'Neckline', value: 'Shaved clean' },
+    ],
+  },
+  {
+    keywords: ['chin strap', 'strap'],
+    guide: [
+      { label: 'Length', value: '3-6mm' },
+      { label: 'Guard', value: '#0.5-#1' },
+      { label: 'Shape', value: '1-2cm wide line tracing the jaw from ear to ear' },
+      { label: 'Neckline', value: 'Shaved clean below the strap' },
+    ],
+  },
+];
+
+const findGuide = (entries: GuideEntry[], name: string): CuttingGuideline[] => {
+  const lowerName = name.toLowerCase().replace(/[-_]/g, ' ');
+  // Prefer the longest keyword so "short beard" wins over "beard"-style fallbacks
+  let best: { length: number; guide: CuttingGuideline[] } | null = null;
+  for (const entry of entries) {
+    for (const keyword of entry.keywords) {
+      if (lowerName.includes(keyword) && (!best || keyword.length > best.length)) {
+        best = { length: keyword.length, guide: entry.guide };
+      }
+    }
+  }
+  return best ? best.guide : [];
+};
+
+const formatFade = (spec: CuttingSpec) => {
+  if (!spec.fadeType) return spec.fadeHeight;
+  return spec.fadeHeight ? `${spec.fadeType} (${spec.fadeHeight})` : spec.fadeType;
+};
+
+// Flattens a spec into labelled rows, skipping anything the model left out
+export const specToGuidelines = (spec: CuttingSpec): CuttingGuideline[] => {
+  const rows: [string, string | undefined][] = [
+    ['Top', spec.topLength],
+    ['Sides', spec.sideLength],
+    ['Back', spec.backLength],
+    ['Cheeks', spec.beardLength?.cheeks],
+    ['Jawline', spec.beardLength?.jawline],
+    ['Chin', spec.beardLength?.chin],
+    ['Mustache', spec.beardLength?.mustache],
+    ['Clipper Guard', spec.clipperGuard],
+    ['Fade', formatFade(spec)],
+    ['Neckline', spec.neckline],
+    ['Maintenance', spec.maintenanceInterval],
+    ['Difficulty', spec.difficulty],
+  ];
+  return rows
+    .filter((row): row is [string, string] => !!row[1])
+    .map(([label, value]) => ({ label, value }));
+};
+
+// Combinations only carry style names, so look the spec up on the matching recommendation
+export const findStyleSpec = (recommendations: StyleRecommendation[] | undefined, name: string): CuttingSpec | undefined => {
+  const target = name.trim().toLowerCase();
+  return recommendations?.find((rec) => rec.name.trim().toLowerCase() === target)?.spec;
+};
+
+const withSpec = (spec: CuttingSpec | undefined, fallback: () => CuttingGuideline[]) => {
+  const rows = spec ? specToGuidelines(spec) : [];
+  return rows.length > 0 ? rows : fallback();
+};
+
+export const getHairGuidance = (hairstyle: string, spec?: CuttingSpec) =>
+  withSpec(spec, () => findGuide(HAIR_GUIDES, hairstyle));
+
+export const getBeardGuidance = (facialHair: string, spec?: CuttingSpec) =>
+  withSpec(spec, () => findGuide(BEARD_GUIDES, facialHair));
@@ -0,0 +1,90 @@
+// Thin promise wrapper around the app's single IndexedDB database
+
+const DB_NAME = 'sharpAI';
+const DB_VERSION = 3;
+
+export const STORES = {
+  SESSIONS: 'sessions',
+  SAVED_LOOK_IMAGES: 'savedLookImages',
+  RESPONSE_CACHE: 'responseCache',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+export const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.SESSIONS)) {
+    const sessions = db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+    sessions.createIndex('createdAt', 'createdAt');
+  }
+  if (!db.objectStoreNames.contains(STORES.SAVED_LOOK_IMAGES)) {
+    db.createObjectStore(STORES.SAVED_LOOK_IMAGES, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.RESPONSE_CACHE)) {
+    const cache = db.createObjectStore(STORES.RESPONSE_CACHE, { keyPath: 'key' });
+    cache.createIndex('lastUsedAt', 'lastUsedAt');
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Step aside when another tab upgrades the schema; the next call reopens at the new version
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // Another tab still holds an older version open; fail now rather than wait for it to close
+      request.onblocked = () => reject(new Error("Another tab still has an older version of the database open; close it and try again."));
+    });
+    // Allow a later call to retry if opening failed (e.g. private mode quirks)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `operation` inside a transaction and resolves once the transaction has committed
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | Promise<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  // A failing operation throws before `done` is awaited; the transaction then aborts with nobody listening
+  done.catch(() => undefined);
+  const pending = operation(transaction.objectStore(storeName));
+  const result = pending instanceof IDBRequest ? await requestToPromise(pending) : await pending;
+  await done;
+  return result;
+};
@@ -0,0 +1,147 @@
+import { ApiError } from "@google/genai";
+import { StyleAIErrorKind } from "../types";
+
+// Kinds that usually succeed if the same request is simply sent again later
+const RETRYABLE_KINDS = new Set<StyleAIErrorKind>([StyleAIErrorKind.RATE_LIMIT, StyleAIErrorKind.NETWORK]);
+
+export class StyleAIError extends Error {
+  readonly kind: StyleAIErrorKind;
+  readonly retryable: boolean;
+  // Server-suggested wait before retrying, when the API provided one
+  readonly retryAfterMs?: number;
+  // Specific copy for the user, shown instead of the generic message for the kind
+  readonly userMessage?: string;
+
+  constructor(
+    kind: StyleAIErrorKind,
+    message: string,
+    // `retryable` overrides the kind's default, e.g. for a stream that already reached the user
+    options: { cause?: unknown; retryAfterMs?: number; userMessage?: string; retryable?: boolean } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "StyleAIError";
+    this.kind = kind;
+    this.retryable = options.retryable ?? RETRYABLE_KINDS.has(kind);
+    this.retryAfterMs = options.retryAfterMs;
+    this.userMessage = options.userMessage;
+  }
+}
+
+const USER_MESSAGES: Record<StyleAIErrorKind, string> = {
+  [StyleAIErrorKind.RATE_LIMIT]: "Our AI barber is busy right now (rate limit reached). Give it a few seconds and try again.",
+  [StyleAIErrorKind.SAFETY_BLOCK]: "This request was blocked by the AI safety filters. Try a different photo or style.",
+  [StyleAIErrorKind.NO_FACE]: "We couldn't find a single, clear face in this photo. Try a well-lit, front-facing selfie.",
+  [StyleAIErrorKind.NETWORK]: "We couldn't reach the AI service. Check your connection and try again.",
+  [StyleAIErrorKind.MALFORMED_RESPONSE]: "The AI returned an incomplete answer. Please try again.",
+  [StyleAIErrorKind.NO_IMAGE]: "The AI didn't return a preview image for this look. Try again or pick a different style.",
+  [StyleAIErrorKind.CANCELLED]: "Preview cancelled.",
+  [StyleAIErrorKind.UNKNOWN]: "Something went wrong. Please try again.",
+};
+
+const UNKNOWN_MESSAGES = {
+  analysis: "Something went wrong while analyzing your image. Please try again.",
+  preview: "Could not generate preview. Please try again.",
+};
+
+export const getErrorKind = (error: unknown): StyleAIErrorKind =>
+  error instanceof StyleAIError ? error.kind : StyleAIErrorKind.UNKNOWN;
+
+// User-facing copy for any error thrown by the AI service
+export const getErrorMessage = (error: unknown, context: 'analysis' | 'preview'): string => {
+  if (error instanceof StyleAIError && error.userMessage) return error.userMessage;
+  const kind = getErrorKind(error);
+  return kind === StyleAIErrorKind.UNKNOWN ? UNKNOWN_MESSAGES[context] : USER_MESSAGES[kind];
+};
+
+// Gemini puts hints like "Please retry in 12.5s" in rate-limit messages
+const parseRetryAfterMs = (message: string): number | undefined => {
+  const match = message.match(/retry in ([\d.]+)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Maps SDK, fetch and unknown failures onto a StyleAIError. Errors that are already
+ * classified pass through untouched.
+ */
+export const classifyError = (error: unknown): StyleAIError => {
+  if (error instanceof StyleAIError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof Error && error.name === "AbortError") {
+    return new StyleAIError(StyleAIErrorKind.CANCELLED, message, { cause: error });
+  }
+
+  if (error instanceof ApiError) {
+    if (error.status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+      return new StyleAIError(StyleAIErrorKind.RATE_LIMIT, message, { cause: error, retryAfterMs: parseRetryAfterMs(message) });
+    }
+    if (error.status >= 500) {
+      return new StyleAIError(StyleAIErrorKind.NETWORK, message, { cause: error });
+    }
+    if (/safety|blocked/i.test(message)) {
+      return new StyleAIError(StyleAIErrorKind.SAFETY_BLOCK, message, { cause: error });
+    }
+    return new StyleAIError(StyleAIErrorKind.UNKNOWN, message, { cause: error });
+  }
+
+  const offline = typeof navigator !== "undefined" && navigator.onLine === false;
+  if (offline || (error instanceof TypeError && /fetch|network/i.test(message))) {
+    return new StyleAIError(StyleAIErrorKind.NETWORK, message, { cause: error });
+  }
+
+  return new StyleAIError(StyleAIErrorKind.UNKNOWN, message, { cause: error });
+};
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+};
+
+export const cancelledError = () => new StyleAIError(StyleAIErrorKind.CANCELLED, "The request was cancelled.");
+
+export const isCancelled = (error: unknown) => getErrorKind(error) === StyleAIErrorKind.CANCELLED;
+
+// Resolves after `ms`, or rejects as cancelled as soon as `signal` aborts
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Runs `task`, retrying transient failures with exponential backoff and jitter.
+ * Always rejects with a classified StyleAIError; an aborted `signal` stops further attempts.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, policy: RetryPolicy = DEFAULT_RETRY_POLICY, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw cancelledError();
+    try {
+      return await task();
+    } catch (err) {
+      const error = signal?.aborted ? cancelledError() : classifyError(err);
+      if (!error.retryable || attempt >= policy.maxRetries) {
+        throw error;
+      }
+      const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+      const delay = Math.max(error.retryAfterMs ?? 0, backoff * (0.5 + Math.random() * 0.5));
+      console.warn(`AI request failed (${error.kind}), retrying in ${Math.round(delay)}ms`, error);
+      await wait(delay, signal);
+    }
+  }
+};
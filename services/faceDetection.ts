@@ -0,0 +1,239 @@
+import type { FaceLandmarker, FilesetResolver, NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { FaceMeasurement, FacePoint, FaceScan, ImageRegion } from "../types";
+
+// Served from public/mediapipe (models from `npm run models`, the wasm runtime copied by
+// vite.config.ts); nothing is fetched from a CDN at runtime
+export const MEDIAPIPE_BASE_PATH = "/mediapipe";
+const MODEL_PATH = `${MEDIAPIPE_BASE_PATH}/face_landmarker.task`;
+
+// MediaPipe face mesh indices
+const FACE_OVAL = [10, 338, 297, 332, 284, 251, 389, 356, 454, 323, 361, 288, 397, 365, 379, 378, 400, 377, 152, 148, 176, 149, 150, 136, 172, 58, 132, 93, 234, 127, 162, 21, 54, 103, 67, 109];
+// Eye corners (outer, inner, inner, outer), nose tip, mouth corners, chin; identityCheck relies on this order
+const KEY_POINTS = [33, 133, 362, 263, 1, 61, 291, 152];
+const LEFT_EYE = [33, 160, 158, 133, 153, 144];
+const RIGHT_EYE = [362, 385, 387, 263, 373, 380];
+const LEFT_CHEEK = 50;
+const RIGHT_CHEEK = 280;
+const NOSE_TIP = 1;
+const MEASUREMENTS: { id: FaceMeasurement["id"]; label: string; from: number; to: number }[] = [
+  { id: "forehead", label: "Forehead", from: 54, to: 284 },
+  { id: "cheekbones", label: "Cheekbones", from: 234, to: 454 },
+  { id: "jaw", label: "Jaw", from: 172, to: 397 },
+  { id: "length", label: "Face length", from: 10, to: 152 },
+];
+
+// Faces narrower than this share of the photo get cropped in so the model sees more detail
+const CROP_BELOW_FACE_WIDTH = 0.3;
+// Square crop side as a multiple of the face height, leaving room for hair and beard
+const CROP_SCALE = 2.4;
+// Nose tip offset from the face centre, as a share of face width, beyond which the head is turned
+const MAX_YAW_OFFSET = 0.14;
+// Eyes darker than this share of cheek brightness read as sunglasses or a hand over the eyes
+const MIN_EYE_BRIGHTNESS = 0.45;
+
+export interface FaceInspection {
+  scan?: FaceScan;
+  // User-facing reason the photo can't be used; unset when it can
+  problem?: string;
+  // Region to crop to before analysis, when the face is small in the frame
+  suggestedCrop?: ImageRegion;
+}
+
+// A model file that isn't served; the message is shown to the user as is
+export class VisionModelMissingError extends Error {
+  constructor(file: string) {
+    super(`The on-device model "${file}" isn't installed. Run \`npm run models\` and reload the page.`);
+    this.name = "VisionModelMissingError";
+  }
+}
+
+// The dev server answers unknown paths with index.html, so a missing model can come back as a 200 page
+export const assertModelAvailable = async (modelPath: string) => {
+  const response = await fetch(modelPath, { method: "HEAD" }).catch(() => null);
+  if (!response?.ok || response.headers.get("content-type")?.includes("text/html")) {
+    throw new VisionModelMissingError(modelPath.split("/").pop() ?? modelPath);
+  }
+};
+
+// User-facing reason the face check can't run, or null when its model is installed
+export const getFaceCheckUnavailableReason = () =>
+  assertModelAvailable(MODEL_PATH).then(
+    () => null,
+    (err: Error) => err.message,
+  );
+
+// WasmFileset isn't exported by the package
+type VisionFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+let filesetPromise: Promise<VisionFileset> | null = null;
+let landmarkerPromise: Promise<FaceLandmarker> | null = null;
+
+// WASM runtime shared by every MediaPipe task (landmarks here, hair segmentation in hairMask)
+export const loadVisionFileset = () => {
+  if (!filesetPromise) {
+    filesetPromise = import("@mediapipe/tasks-vision").then(({ FilesetResolver }) =>
+      FilesetResolver.forVisionTasks(`${MEDIAPIPE_BASE_PATH}/wasm`),
+    );
+    filesetPromise.catch(() => {
+      filesetPromise = null;
+    });
+  }
+  return filesetPromise;
+};
+
+// Loaded on first use like the HEIC decoder; a failed load is retried on the next photo
+const getLandmarker = () => {
+  if (!landmarkerPromise) {
+    landmarkerPromise = (async () => {
+      await assertModelAvailable(MODEL_PATH);
+      const { FaceLandmarker } = await import("@mediapipe/tasks-vision");
+      return FaceLandmarker.createFromOptions(await loadVisionFileset(), {
+        baseOptions: { modelAssetPath: MODEL_PATH },
+        runningMode: "IMAGE",
+        // Two is enough to tell "one face" from "several"
+        numFaces: 2,
+      });
+    })();
+    landmarkerPromise.catch(() => {
+      landmarkerPromise = null;
+    });
+  }
+  return landmarkerPromise;
+};
+
+const toPoint = ({ x, y }: NormalizedLandmark): FacePoint => ({ x, y });
+
+const boundingBox = (points: FacePoint[]): ImageRegion => {
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+const pixelDistance = (a: FacePoint, b: FacePoint, width: number, height: number) =>
+  Math.hypot((a.x - b.x) * width, (a.y - b.y) * height);
+
+// Mean luminance of a normalized region, sampled from a downscaled copy of the photo
+const regionBrightness = (pixels: ImageData, region: ImageRegion) => {
+  const left = Math.max(0, Math.floor(region.x * pixels.width));
+  const top = Math.max(0, Math.floor(region.y * pixels.height));
+  const right = Math.min(pixels.width, Math.ceil((region.x + region.width) * pixels.width));
+  const bottom = Math.min(pixels.height, Math.ceil((region.y + region.height) * pixels.height));
+  let total = 0;
+  let count = 0;
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const offset = (y * pixels.width + x) * 4;
+      total += 0.299 * pixels.data[offset] + 0.587 * pixels.data[offset + 1] + 0.114 * pixels.data[offset + 2];
+      count++;
+    }
+  }
+  return count > 0 ? total / count : 0;
+};
+
+const samplePixels = (bitmap: ImageBitmap, size = 256): ImageData | null => {
+  const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Sunglasses or a hand leave the eye area much darker than the cheeks right below it
+const eyesCovered = (pixels: ImageData, landmarks: NormalizedLandmark[]) => {
+  const eyes = [LEFT_EYE, RIGHT_EYE].map((indices) => boundingBox(indices.map((index) => toPoint(landmarks[index]))));
+  const eyeBrightness = eyes.reduce((sum, box) => sum + regionBrightness(pixels, box), 0) / eyes.length;
+  const cheekBrightness = [LEFT_CHEEK, RIGHT_CHEEK].reduce((sum, index, i) => {
+    const { x, y } = landmarks[index];
+    const { width, height } = eyes[i];
+    return sum + regionBrightness(pixels, { x: x - width / 2, y: y - height / 2, width, height });
+  }, 0) / 2;
+  return cheekBrightness > 0 && eyeBrightness / cheekBrightness < MIN_EYE_BRIGHTNESS;
+};
+
+const buildScan = (landmarks: NormalizedLandmark[], width: number, height: number): FaceScan => {
+  const outline = FACE_OVAL.map((index) => toPoint(landmarks[index]));
+  return {
+    imageWidth: width,
+    imageHeight: height,
+    box: boundingBox(outline),
+    outline,
+    keyPoints: KEY_POINTS.map((index) => toPoint(landmarks[index])),
+    measurements: MEASUREMENTS.map(({ id, label, from, to }) => {
+      const start = toPoint(landmarks[from]);
+      const end = toPoint(landmarks[to]);
+      return { id, label, from: start, to: end, length: pixelDistance(start, end, width, height) };
+    }),
+  };
+};
+
+const cropAround = (box: ImageRegion, width: number, height: number): ImageRegion | undefined => {
+  if (box.width >= CROP_BELOW_FACE_WIDTH) return undefined;
+  const side = Math.min(width, height, box.height * height * CROP_SCALE);
+  const centerX = (box.x + box.width / 2) * width;
+  // Bias upwards so the crop keeps the hair
+  const centerY = (box.y + box.height * 0.4) * height;
+  const left = Math.min(Math.max(0, centerX - side / 2), width - side);
+  const top = Math.min(Math.max(0, centerY - side / 2), height - side);
+  return { x: left / width, y: top / height, width: side / width, height: side / height };
+};
+
+/**
+ * Runs the bundled face landmark model on a photo and decides whether it can be analysed:
+ * exactly one face, fully in frame, facing the camera and with the eyes visible.
+ * Returns null when the model can't be loaded, in which case uploads go through unchecked.
+ */
+export const inspectFace = async (file: Blob): Promise<FaceInspection | null> => {
+  let landmarker: FaceLandmarker;
+  try {
+    landmarker = await getLandmarker();
+  } catch (err) {
+    console.warn("Face detection unavailable", err);
+    return null;
+  }
+
+  const bitmap = await createImageBitmap(file);
+  try {
+    const { faceLandmarks } = landmarker.detect(bitmap);
+    if (faceLandmarks.length === 0) {
+      return { problem: "We couldn't find a face in this photo. Please use a clear, front-facing photo." };
+    }
+    if (faceLandmarks.length > 1) {
+      return { problem: "This photo has more than one face. Please upload a photo of just you." };
+    }
+
+    const landmarks = faceLandmarks[0];
+    const scan = buildScan(landmarks, bitmap.width, bitmap.height);
+    const { box } = scan;
+    if (box.x < 0 || box.y < 0 || box.x + box.width > 1 || box.y + box.height > 1) {
+      return { scan, problem: "Your face is cut off at the edge of the photo. Please include your whole head." };
+    }
+    const yaw = (landmarks[NOSE_TIP].x - (box.x + box.width / 2)) / box.width;
+    if (Math.abs(yaw) > MAX_YAW_OFFSET) {
+      return { scan, problem: "Your head is turned to the side. Please face the camera directly (add side photos separately)." };
+    }
+    const pixels = samplePixels(bitmap);
+    if (pixels && eyesCovered(pixels, landmarks)) {
+      return { scan, problem: "Your eyes look covered (sunglasses or a hand). Please use a photo with your face uncovered." };
+    }
+    return { scan, suggestedCrop: cropAround(box, bitmap.width, bitmap.height) };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Width-to-length style ratios shown next to the scan, e.g. "Jaw / cheekbones 0.86"
+export const describeFaceRatios = (scan: FaceScan): { label: string; value: string }[] => {
+  const length = (id: FaceMeasurement["id"]) => scan.measurements.find((measurement) => measurement.id === id)?.length ?? 0;
+  const cheekbones = length("cheekbones");
+  if (!cheekbones) return [];
+  return [
+    { label: "Length / cheekbones", value: (length("length") / cheekbones).toFixed(2) },
+    { label: "Forehead / cheekbones", value: (length("forehead") / cheekbones).toFixed(2) },
+    { label: "Jaw / cheekbones", value: (length("jaw") / cheekbones).toFixed(2) },
+  ];
+};
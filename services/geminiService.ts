@@ -1,166 +1,118 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisResult, AnalysisMode } from "../types";
+import { AnalysisResult, AnalysisMode, AnalyzeOptions, PreviewOptions, ProfileAngle, RefinementContext, StyleAIProvider, StyleAIProviderId } from "../types";
+import { geminiProvider } from "./providers/geminiProvider";
+import { mockProvider } from "./providers/mockProvider";
+import { readPartialAnalysis, validateAnalysisResult } from "./analysisValidator";
+import { withRetry, DEFAULT_RETRY_POLICY, classifyError, StyleAIError } from "./errors";
+import { cached } from "./responseCache";
 
-const BASE_SYSTEM_INSTRUCTION = `
-You are an expert professional stylist and barber with deep knowledge of face shapes, aesthetics, and grooming.
-Your task is to analyze a user's facial image and provide personalized recommendations.
-1. Identify the user's face shape (e.g., Oval, Round, Square, Diamond, Heart, Oblong).
-2. Analyze key facial features (jawline, forehead, cheekbones).
-3. Recommend styles based on the specific request mode.
-4. Provide 3-4 general grooming or styling tips.
-
-Be specific about WHY a style works (e.g., "Adds volume to top to elongate a round face").
-`;
-
-const RESPONSE_SCHEMA: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    faceShape: {
-      type: Type.STRING,
-      description: "The identified shape of the face (e.g., Oval, Square).",
-    },
-    faceAnalysis: {
-      type: Type.STRING,
-      description: "A brief analysis of the facial features contributing to this shape.",
-    },
-    hairstyles: {
-      type: Type.ARRAY,
-      description: "Recommended hairstyles. Empty if facial hair only.",
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          name: { type: Type.STRING, description: "Name of the hairstyle." },
-          description: { type: Type.STRING, description: "Description of the cut." },
-          reasoning: { type: Type.STRING, description: "Why this suits the user." },
-        },
-        required: ["name", "description", "reasoning"],
-      },
-    },
-    facialHair: {
-      type: Type.ARRAY,
-      description: "Recommended beard or facial hair styles. Empty if hairstyle only.",
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          name: { type: Type.STRING, description: "Name of the style." },
-          description: { type: Type.STRING, description: "Description of the style." },
-          reasoning: { type: Type.STRING, description: "Why this suits the user." },
-        },
-        required: ["name", "description", "reasoning"],
-      },
-    },
-    combinations: {
-      type: Type.ARRAY,
-      description: "Recommended combinations. Empty if single mode selected.",
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          name: { type: Type.STRING, description: "Creative name for the combination." },
-          hairstyle: { type: Type.STRING, description: "The specific hairstyle used in this combination." },
-          facialHair: { type: Type.STRING, description: "The specific facial hair style used." },
-          description: { type: Type.STRING, description: "Overall description of the look." },
-          reasoning: { type: Type.STRING, description: "Why this combination works together." },
-        },
-        required: ["name", "hairstyle", "facialHair", "description", "reasoning"],
-      },
-    },
-    groomingTips: {
-      type: Type.ARRAY,
-      description: "General grooming tips.",
-      items: { type: Type.STRING },
-    },
-  },
-  required: ["faceShape", "faceAnalysis", "hairstyles", "facialHair", "combinations", "groomingTips"],
+const PROVIDERS: Record<StyleAIProviderId, StyleAIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
 };
 
-export const analyzeFace = async (base64Image: string, mode: AnalysisMode): Promise<AnalysisResult> => {
-  try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    // Remove header if present
-    const cleanBase64 = base64Image.split(',')[1] || base64Image;
+// Own keys only, so "constructor" or "toString" aren't taken for providers
+const isProviderId = (id: string): id is StyleAIProviderId => Object.hasOwn(PROVIDERS, id);
 
-    let modeInstruction = "";
-    if (mode === AnalysisMode.HAIRSTYLE_ONLY) {
-      modeInstruction = "FOCUS ONLY ON HAIRSTYLES. Return an empty array for 'facialHair'. Populate 'hairstyles' with 4-5 options. Populate 'combinations' with 3 distinct hairstyle-only transformations (leave facialHair as empty string in combinations).";
-    } else if (mode === AnalysisMode.FACIAL_HAIR_ONLY) {
-      modeInstruction = "FOCUS ONLY ON FACIAL HAIR. Return an empty array for 'hairstyles'. Populate 'facialHair' with 4-5 options. Populate 'combinations' with 3 distinct facial-hair-only transformations (leave hairstyle as empty string in combinations).";
-    } else {
-      modeInstruction = "Recommend 3-4 specific hairstyles, 3-4 specific facial hair styles, and 3 distinct 'Look Combinations' pairing them together.";
-    }
+// Picks the provider from STYLE_AI_PROVIDER, falling back to the live Gemini adapter
+const resolveConfiguredProvider = (): StyleAIProvider => {
+  const configured = (process.env.STYLE_AI_PROVIDER || "").trim().toLowerCase();
+  if (configured && isProviderId(configured)) {
+    return PROVIDERS[configured];
+  }
+  if (configured) {
+    console.warn(`Unknown STYLE_AI_PROVIDER "${configured}", falling back to Gemini.`);
+  }
+  return geminiProvider;
+};
 
-    const fullSystemInstruction = `${BASE_SYSTEM_INSTRUCTION}\n\nCURRENT MODE: ${modeInstruction}`;
+let activeProvider: StyleAIProvider = resolveConfiguredProvider();
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "image/jpeg",
-              data: cleanBase64,
-            },
-          },
-          {
-            text: "Analyze this face and recommend styles based on the mode provided in system instructions.",
-          },
-        ],
-      },
-      config: {
-        systemInstruction: fullSystemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: RESPONSE_SCHEMA,
-      },
-    });
+export const getStyleAIProvider = (): StyleAIProvider => activeProvider;
 
-    if (response.text) {
-      return JSON.parse(response.text) as AnalysisResult;
-    } else {
-      throw new Error("No response text received from Gemini.");
-    }
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    throw error;
+// Swap the backend at runtime (e.g. to the mock provider in demos or component tests)
+export const setStyleAIProvider = (provider: StyleAIProvider | StyleAIProviderId) => {
+  if (typeof provider !== "string") {
+    activeProvider = provider;
+    return;
+  }
+  if (!isProviderId(provider)) {
+    throw new Error(`Unknown style AI provider "${provider}". Expected one of: ${Object.keys(PROVIDERS).join(", ")}.`);
   }
+  activeProvider = PROVIDERS[provider];
 };
 
-export const generateLookPreview = async (originalBase64: string, combinationDescription: string): Promise<string> => {
-  try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const cleanBase64 = originalBase64.split(',')[1] || originalBase64;
+// Every entry point retries transient failures, rejects with a classified StyleAIError and
+// serves repeat requests from the response cache unless `regenerate` is set
+export const analyzeFace = (base64Image: string, mode: AnalysisMode, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  const provider = activeProvider;
+  // Providers report raw partial JSON; callers only ever see it normalized
+  const { onPartialResult } = options;
+  let streamed = false;
+  const providerOptions: AnalyzeOptions = onPartialResult
+    ? {
+        ...options,
+        onPartialResult: (raw) => {
+          streamed = true;
+          onPartialResult(readPartialAnalysis(raw, mode, options.preferences));
+        },
+      }
+    : options;
+  // Only retried until the first chunk: replaying the stream would wipe partial results already on screen
+  const analyzeOnce = async () => {
+    try {
+      return await provider.analyzeFace(base64Image, mode, providerOptions);
+    } catch (err) {
+      if (!streamed) throw err;
+      const error = classifyError(err);
+      throw new StyleAIError(error.kind, error.message, { cause: error, userMessage: error.userMessage, retryable: false });
+    }
+  };
+  return cached(
+    "analysis",
+    [
+      provider.id,
+      provider.models.analysis,
+      mode,
+      base64Image,
+      options.profileImages?.[ProfileAngle.LEFT_PROFILE],
+      options.profileImages?.[ProfileAngle.RIGHT_PROFILE],
+      JSON.stringify(options.preferences ?? null),
+    ],
+    async () => validateAnalysisResult(
+      await withRetry(analyzeOnce),
+      mode,
+      options.preferences,
+    ),
+    options.regenerate,
+  );
+};
 
-    // We use gemini-2.5-flash-image for image editing/generation based on input image
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: cleanBase64,
-            },
-          },
-          {
-            text: `Edit this image to show the person with the following style: ${combinationDescription}. 
-            Maintain the person's original identity, face shape, skin tone, and lighting. 
-            Make it look like a photorealistic after-haircut photo.`,
-          },
-        ],
-      },
-    });
+// Components should go through services/generationQueue rather than calling this directly
+export const generateLookPreview = (originalBase64: string, combinationDescription: string, options: PreviewOptions = {}): Promise<string> => {
+  const provider = activeProvider;
+  return cached(
+    "preview",
+    [provider.id, provider.models.preview, originalBase64, combinationDescription, options.seed?.toString()],
+    () => withRetry(() => provider.generateLookPreview(originalBase64, combinationDescription, options), DEFAULT_RETRY_POLICY, options.signal),
+    options.regenerate,
+  );
+};
 
-    // Extract image from response
-    if (response.candidates && response.candidates[0].content.parts) {
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData && part.inlineData.data) {
-                return `data:image/png;base64,${part.inlineData.data}`;
-            }
-        }
-    }
-    
-    throw new Error("No image generated.");
-  } catch (error) {
-    console.error("Image Generation Error:", error);
-    throw error;
-  }
-};
\ No newline at end of file
+// Also queued (enqueueRefinement); the cache key covers the image being edited, so undo + redo is free
+export const refineLookPreview = (currentImage: string, instruction: string, context: RefinementContext, options: PreviewOptions = {}): Promise<string> => {
+  const provider = activeProvider;
+  return cached(
+    "refinement",
+    [
+      provider.id,
+      provider.models.preview,
+      context.originalBase64,
+      context.lookDescription,
+      currentImage,
+      instruction,
+      options.seed?.toString(),
+    ],
+    () => withRetry(() => provider.refineLookPreview(currentImage, instruction, context, options), DEFAULT_RETRY_POLICY, options.signal),
+    options.regenerate,
+  );
+};
@@ -0,0 +1,225 @@
+import { EditRegion, GenerationJob, IdentityCheck, PreviewOptions, RefinementContext } from "../types";
+import { generateLookPreview, refineLookPreview } from "./geminiService";
+import { cancelledError, isCancelled } from "./errors";
+import { createId } from "./db";
+import { checkIdentity, IdentityLayout } from "./identityCheck";
+import { compositeOnOriginal } from "./hairMask";
+
+// Image generations allowed in flight at once; the rest wait their turn instead of tripping rate limits
+const DEFAULT_CONCURRENCY = 2;
+
+const parseConcurrency = (value: string | undefined) => {
+  const parsed = Number.parseInt(value || "", 10);
+  return parsed > 0 ? parsed : DEFAULT_CONCURRENCY;
+};
+
+let concurrency = parseConcurrency(process.env.PREVIEW_CONCURRENCY);
+
+// Extra attempts, past the response cache, for previews that fail the identity check
+const IDENTITY_RETRIES = 1;
+
+interface QueueEntry {
+  job: GenerationJob;
+  // Photo the result must still look like
+  originalBase64: string;
+  identityLayout?: IdentityLayout;
+  // Areas taken from the generated image; everything else stays as in the original
+  editRegions?: EditRegion[];
+  // `retry` asks again past the cache after a failed identity check
+  generate: (signal: AbortSignal, retry: boolean) => Promise<string>;
+  controller: AbortController;
+  promise: Promise<string>;
+  resolve: (imageUrl: string) => void;
+  reject: (error: unknown) => void;
+}
+
+// The queue owns the abort signal; `identityLayout` overrides where the identity check looks
+export interface QueuedPreviewOptions extends Omit<PreviewOptions, "signal"> {
+  identityLayout?: IdentityLayout;
+  editRegions?: EditRegion[];
+}
+
+const entries = new Map<string, QueueEntry>();
+let waiting: string[] = [];
+let running = 0;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const setJob = (entry: QueueEntry, changes: Partial<GenerationJob>) => {
+  entry.job = { ...entry.job, ...changes };
+};
+
+export const isJobPending = (job: GenerationJob | undefined) => job?.status === "queued" || job?.status === "running";
+
+// Failed checks rank below passed ones, then by how close the face stayed
+const score = (identity: IdentityCheck | null) => (identity ? (identity.passed ? 2 : 0) + identity.faceSimilarity : 1);
+
+// Model output pasted back onto the original photo at its exact size, so the slider lines up
+const composite = async (entry: QueueEntry, imageUrl: string) => {
+  try {
+    return await compositeOnOriginal(entry.originalBase64, imageUrl, entry.editRegions);
+  } catch (err) {
+    console.warn("Compositing failed, keeping the generated image", err);
+    return imageUrl;
+  }
+};
+
+// Generates, checks the result against the original photo and retries drifted previews, keeping the best attempt.
+// The check runs on the raw model output: the composite copies the original's face and background back in,
+// so it would pass even when the model drifted.
+const generateVerified = async (entry: QueueEntry) => {
+  const { signal } = entry.controller;
+  let best = await entry.generate(signal, false);
+  let bestIdentity = await checkIdentity(entry.originalBase64, best, entry.identityLayout);
+  for (let attempt = 0; attempt < IDENTITY_RETRIES && bestIdentity && !bestIdentity.passed; attempt++) {
+    if (signal.aborted) throw cancelledError();
+    const imageUrl = await entry.generate(signal, true);
+    const identity = await checkIdentity(entry.originalBase64, imageUrl, entry.identityLayout);
+    if (score(identity) > score(bestIdentity)) {
+      best = imageUrl;
+      bestIdentity = identity;
+    }
+  }
+  if (signal.aborted) throw cancelledError();
+  return { imageUrl: await composite(entry, best), identity: bestIdentity };
+};
+
+const run = async (entry: QueueEntry) => {
+  running++;
+  setJob(entry, { status: "running" });
+  notify();
+  try {
+    const { imageUrl, identity } = await generateVerified(entry);
+    if (entry.controller.signal.aborted) throw cancelledError();
+    setJob(entry, { status: "done", imageUrl, identity });
+    entry.resolve(imageUrl);
+  } catch (err) {
+    setJob(entry, { status: isCancelled(err) ? "cancelled" : "error", error: err });
+    entry.reject(err);
+  } finally {
+    running--;
+    pump();
+  }
+};
+
+const pump = () => {
+  while (running < concurrency && waiting.length > 0) {
+    const entry = entries.get(waiting.shift()!);
+    if (entry) run(entry);
+  }
+  notify();
+};
+
+const enqueue = (
+  key: string,
+  originalBase64: string,
+  generate: QueueEntry["generate"],
+  { identityLayout, editRegions }: Pick<QueueEntry, "identityLayout" | "editRegions"> = {},
+): Promise<string> => {
+  const existing = entries.get(key);
+  if (existing && isJobPending(existing.job)) return existing.promise;
+
+  let resolve!: (imageUrl: string) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<string>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Callers that only watch the job state shouldn't trigger unhandled rejections
+  promise.catch(() => undefined);
+
+  entries.set(key, {
+    job: { id: createId(), key, status: "queued" },
+    originalBase64,
+    identityLayout,
+    editRegions,
+    generate,
+    controller: new AbortController(),
+    promise,
+    resolve,
+    reject,
+  });
+  waiting.push(key);
+  pump();
+  return promise;
+};
+
+/**
+ * Queues a preview under `key` (one job per card or look). Asking again while the
+ * same key is queued or running returns the job already in flight. `options.regenerate`
+ * bypasses the response cache and `options.seed` picks a specific variation. `options.editRegions`
+ * limits which parts of the photo the result may change.
+ */
+export const enqueuePreview = (
+  key: string,
+  originalBase64: string,
+  description: string,
+  { identityLayout, editRegions, ...options }: QueuedPreviewOptions = {},
+): Promise<string> =>
+  enqueue(
+    key,
+    originalBase64,
+    (signal, retry) => generateLookPreview(originalBase64, description, { ...options, regenerate: options.regenerate || retry, signal }),
+    { identityLayout, editRegions },
+  );
+
+// Follow-up edit of `currentImage`; shares the concurrency limit with previews
+export const enqueueRefinement = (
+  key: string,
+  currentImage: string,
+  instruction: string,
+  context: RefinementContext,
+  { editRegions }: Pick<QueuedPreviewOptions, "editRegions"> = {},
+): Promise<string> =>
+  enqueue(
+    key,
+    context.originalBase64,
+    (signal, retry) => refineLookPreview(currentImage, instruction, context, { regenerate: retry, signal }),
+    { editRegions },
+  );
+
+export const cancelPreview = (key: string) => {
+  const entry = entries.get(key);
+  if (!entry || !isJobPending(entry.job)) return;
+  if (entry.job.status === "queued") {
+    waiting = waiting.filter((waitingKey) => waitingKey !== key);
+    const error = cancelledError();
+    setJob(entry, { status: "cancelled", error });
+    entry.reject(error);
+    notify();
+    return;
+  }
+  // Running jobs settle as cancelled through their own catch
+  entry.controller.abort();
+};
+
+export const cancelPreviews = (keys: string[]) => keys.forEach(cancelPreview);
+
+// Forgets every job under `prefix` (e.g. a closed session), cancelling any still in flight
+export const clearGenerationJobs = (prefix: string) => {
+  const keys = [...entries.keys()].filter((key) => key.startsWith(prefix));
+  if (keys.length === 0) return;
+  cancelPreviews(keys);
+  keys.forEach((key) => entries.delete(key));
+  notify();
+};
+
+export const getGenerationJob = (key: string): GenerationJob | undefined => {
+  const entry = entries.get(key);
+  if (!entry) return undefined;
+  const index = waiting.indexOf(key);
+  return index >= 0 ? { ...entry.job, position: index + 1 } : entry.job;
+};
+
+export const setGenerationConcurrency = (limit: number) => {
+  concurrency = Math.max(1, Math.floor(limit));
+  pump();
+};
+
+export const subscribeToGenerationQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
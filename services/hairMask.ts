@@ -0,0 +1,205 @@
+import type { ImageSegmenter } from "@mediapipe/tasks-vision";
+import { EditRegion, FaceScan } from "../types";
+import { assertModelAvailable, inspectFace, loadVisionFileset, MEDIAPIPE_BASE_PATH } from "./faceDetection";
+
+// Multiclass selfie model: 0 background, 1 hair, 2 body skin, 3 face skin, 4 clothes, 5 accessories
+const SEGMENTER_MODEL_PATH = `${MEDIAPIPE_BASE_PATH}/selfie_multiclass_256x256.tflite`;
+const HAIR_CATEGORY = 1;
+
+// Growth of the detected hair so a fuller style isn't clipped, as a share of the face width
+const HAIR_DILATION = 0.12;
+// Soft mask edge, as a share of the face width, so the seam doesn't show
+const FEATHER = 0.04;
+// Masks are reused across the cards of one photo
+const MAX_CACHED_MASKS = 6;
+
+let segmenterPromise: Promise<ImageSegmenter> | null = null;
+
+const getSegmenter = () => {
+  if (!segmenterPromise) {
+    segmenterPromise = (async () => {
+      await assertModelAvailable(SEGMENTER_MODEL_PATH);
+      const { ImageSegmenter } = await import("@mediapipe/tasks-vision");
+      return ImageSegmenter.createFromOptions(await loadVisionFileset(), {
+        baseOptions: { modelAssetPath: SEGMENTER_MODEL_PATH },
+        runningMode: "IMAGE",
+        outputCategoryMask: true,
+        outputConfidenceMasks: false,
+      });
+    })();
+    segmenterPromise.catch(() => {
+      segmenterPromise = null;
+    });
+  }
+  return segmenterPromise;
+};
+
+// User-facing reason previews can't be masked to the hair and beard, or null when the model is installed
+export const getHairMaskUnavailableReason = () =>
+  assertModelAvailable(SEGMENTER_MODEL_PATH).then(
+    () => null,
+    (err: Error) => err.message,
+  );
+
+const loadBitmap = async (dataUrl: string) => createImageBitmap(await (await fetch(dataUrl)).blob());
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this environment.");
+  return { canvas, ctx };
+};
+
+// Hair pixels from the segmenter as a white-on-transparent canvas at the model's resolution
+const segmentHair = async (bitmap: ImageBitmap): Promise<HTMLCanvasElement | null> => {
+  let segmenter: ImageSegmenter;
+  try {
+    segmenter = await getSegmenter();
+  } catch (err) {
+    console.warn("Hair segmentation unavailable", err);
+    return null;
+  }
+  const result = segmenter.segment(bitmap);
+  try {
+    const mask = result.categoryMask;
+    if (!mask) return null;
+    const categories = mask.getAsUint8Array();
+    const { canvas, ctx } = createCanvas(mask.width, mask.height);
+    const pixels = ctx.createImageData(mask.width, mask.height);
+    categories.forEach((category, index) => {
+      if (category === HAIR_CATEGORY) pixels.data.set([255, 255, 255, 255], index * 4);
+    });
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+  } finally {
+    result.close();
+  }
+};
+
+// Everywhere a new hairstyle could reach: the crown and temples above the brow line
+const drawHairZone = (ctx: CanvasRenderingContext2D, scan: FaceScan, width: number, height: number) => {
+  const { box } = scan;
+  const centerX = (box.x + box.width / 2) * width;
+  const browY = (box.y + box.height * 0.22) * height;
+  ctx.beginPath();
+  ctx.ellipse(centerX, browY, box.width * width * 0.9, box.height * height * 0.8, 0, Math.PI, 2 * Math.PI);
+  ctx.fill();
+};
+
+// Lower face from the nose down, pushed outwards and below the chin for fuller beards
+const drawBeardZone = (ctx: CanvasRenderingContext2D, scan: FaceScan, width: number, height: number) => {
+  const { box } = scan;
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+  const noseY = scan.keyPoints[4]?.y ?? centerY;
+  const lower = scan.outline.filter((point) => point.y >= noseY - box.height * 0.05);
+  if (lower.length < 3) return;
+  // Outline order runs clockwise from the forehead, so the lower points are already in path order
+  ctx.beginPath();
+  lower.forEach((point, index) => {
+    const x = (centerX + (point.x - centerX) * 1.12) * width;
+    const y = (centerY + (point.y - centerY) * 1.2) * height;
+    if (index === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.closePath();
+  ctx.fill();
+};
+
+const buildMask = async (originalBase64: string, regions: EditRegion[]): Promise<HTMLCanvasElement | null> => {
+  const bitmap = await loadBitmap(originalBase64);
+  const { width, height } = bitmap;
+  try {
+    const scan = (await inspectFace(await (await fetch(originalBase64)).blob()).catch(() => null))?.scan;
+    const faceWidth = (scan?.box.width ?? 0.4) * width;
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.fillStyle = "#FFFFFF";
+    let hasArea = false;
+
+    if (regions.includes("hair")) {
+      const hair = await segmentHair(bitmap);
+      if (hair) {
+        // Cheap dilation: stamp the mask in a ring around each pixel
+        const radius = faceWidth * HAIR_DILATION;
+        for (let angle = 0; angle < 2 * Math.PI; angle += Math.PI / 8) {
+          ctx.drawImage(hair, Math.cos(angle) * radius, Math.sin(angle) * radius, width, height);
+        }
+        ctx.drawImage(hair, 0, 0, width, height);
+        hasArea = true;
+      }
+      if (scan) {
+        drawHairZone(ctx, scan, width, height);
+        hasArea = true;
+      }
+    }
+    if (regions.includes("facialHair") && scan) {
+      drawBeardZone(ctx, scan, width, height);
+      hasArea = true;
+    }
+    // No detector output at all: better to keep the whole generated image than to mask everything out
+    if (!hasArea) return null;
+
+    const feathered = createCanvas(width, height);
+    feathered.ctx.filter = `blur(${Math.max(2, Math.round(faceWidth * FEATHER))}px)`;
+    feathered.ctx.drawImage(canvas, 0, 0);
+    return feathered.canvas;
+  } finally {
+    bitmap.close();
+  }
+};
+
+const maskCache = new Map<string, Promise<HTMLCanvasElement | null>>();
+
+const getMask = (originalBase64: string, regions: EditRegion[]) => {
+  const key = `${[...regions].sort().join("+")}:${originalBase64}`;
+  let mask = maskCache.get(key);
+  if (!mask) {
+    mask = buildMask(originalBase64, regions).catch((err) => {
+      console.warn("Edit mask failed", err);
+      return null;
+    });
+    maskCache.set(key, mask);
+    if (maskCache.size > MAX_CACHED_MASKS) maskCache.delete(maskCache.keys().next().value!);
+  }
+  return mask;
+};
+
+/**
+ * Puts a generated preview back onto the original photo. The result always has the exact
+ * dimensions of the original (the model's image is scaled and centre-cropped to fit), and
+ * when `regions` are given only the hair/beard areas come from the model; skin, clothing and
+ * background stay untouched. Without the segmentation model only the size is normalized.
+ */
+export const compositeOnOriginal = async (
+  originalBase64: string,
+  generatedImage: string,
+  regions: EditRegion[] = [],
+): Promise<string> => {
+  const [original, generated] = await Promise.all([loadBitmap(originalBase64), loadBitmap(generatedImage)]);
+  try {
+    const { width, height } = original;
+    const fitted = createCanvas(width, height);
+    // Cover-fit, like the slider's object-cover
+    const scale = Math.max(width / generated.width, height / generated.height);
+    const drawWidth = generated.width * scale;
+    const drawHeight = generated.height * scale;
+    fitted.ctx.drawImage(generated, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+    const mask = regions.length > 0 ? await getMask(originalBase64, regions) : null;
+    if (!mask) return fitted.canvas.toDataURL("image/jpeg", 0.92);
+
+    fitted.ctx.globalCompositeOperation = "destination-in";
+    fitted.ctx.drawImage(mask, 0, 0);
+
+    const output = createCanvas(width, height);
+    output.ctx.drawImage(original, 0, 0);
+    output.ctx.drawImage(fitted.canvas, 0, 0);
+    return output.canvas.toDataURL("image/jpeg", 0.92);
+  } finally {
+    original.close();
+    generated.close();
+  }
+};
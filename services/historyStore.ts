@@ -0,0 +1,76 @@
+import { AnalysisMode, AnalysisResult, AnalysisSession, GeneratedPreview, ProfileAngle } from "../types";
+import { STORES, withStore, requestToPromise, createId } from "./db";
+import { createThumbnail } from "./imagePreprocessor";
+import { getModeLabel } from "./analysisModes";
+
+export interface NewSessionInput {
+  // Lets callers key UI on the session before the write has finished
+  id?: string;
+  image: string;
+  mode: AnalysisMode;
+  result: AnalysisResult;
+  profileImages?: Partial<Record<ProfileAngle, string>>;
+  // Fresh analysis of a photo already in history; named so it isn't mistaken for a duplicate
+  rerun?: boolean;
+}
+
+export const createSession = async ({ id, image, mode, result, profileImages, rerun }: NewSessionInput): Promise<AnalysisSession> => {
+  const now = Date.now();
+  const session: AnalysisSession = {
+    id: id ?? createId(),
+    name: `${result.faceShape} · ${getModeLabel(mode)}${rerun ? " (re-run)" : ""}`,
+    createdAt: now,
+    updatedAt: now,
+    mode,
+    faceShape: result.faceShape,
+    thumbnail: await createThumbnail(image),
+    image,
+    profileImages,
+    result,
+    previews: [],
+  };
+  await withStore(STORES.SESSIONS, "readwrite", (store) => store.put(session));
+  return session;
+};
+
+// Stores an already complete session as is, e.g. one restored from an exported archive
+export const addSession = async (session: AnalysisSession): Promise<AnalysisSession> => {
+  await withStore(STORES.SESSIONS, "readwrite", (store) => store.put(session));
+  return session;
+};
+
+// Newest first
+export const listSessions = async (): Promise<AnalysisSession[]> => {
+  const sessions = await withStore(STORES.SESSIONS, "readonly", (store) => store.getAll() as IDBRequest<AnalysisSession[]>);
+  return sessions.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getSession = (id: string): Promise<AnalysisSession | undefined> =>
+  withStore(STORES.SESSIONS, "readonly", (store) => store.get(id) as IDBRequest<AnalysisSession | undefined>);
+
+// Read-modify-write inside one transaction so concurrent preview saves don't clobber each other
+const updateSession = (id: string, update: (session: AnalysisSession) => AnalysisSession) =>
+  withStore(STORES.SESSIONS, "readwrite", async (store) => {
+    const existing = await requestToPromise(store.get(id) as IDBRequest<AnalysisSession | undefined>);
+    if (!existing) return undefined;
+    const next = { ...update(existing), updatedAt: Date.now() };
+    await requestToPromise(store.put(next));
+    return next;
+  });
+
+export const renameSession = (id: string, name: string) =>
+  updateSession(id, (session) => ({ ...session, name: name.trim() || session.name }));
+
+// Whether `preview` belongs to the look `key`; previews stored before looks had keys match by label
+export const isPreviewOf = (preview: GeneratedPreview, key: string, label: string) =>
+  preview.key ? preview.key === key : preview.label === label;
+
+// One preview per look: re-visualizing a look replaces its earlier preview
+export const addSessionPreview = (id: string, key: string, label: string, imageUrl: string) =>
+  updateSession(id, (session) => {
+    const preview: GeneratedPreview = { id: createId(), key, label, imageUrl, createdAt: Date.now() };
+    return { ...session, previews: [...session.previews.filter((p) => !isPreviewOf(p, key, label)), preview] };
+  });
+
+export const deleteSession = (id: string) =>
+  withStore(STORES.SESSIONS, "readwrite", (store) => store.delete(id));
@@ -0,0 +1,214 @@
+import { FaceScan, IdentityCheck, ImageRegion } from "../types";
+import { inspectFace } from "./faceDetection";
+
+// Both images are compared at this size; small enough to be instant, large enough to keep eye/nose structure
+const SAMPLE_SIZE = 64;
+
+// Below this the eyes/nose no longer line up with the original
+export const MIN_FACE_SIMILARITY = 0.55;
+// Above this the clothes/background noticeably changed (mean per-channel difference, 0-1)
+export const MAX_BACKGROUND_CHANGE = 0.15;
+
+export interface IdentityRegions {
+  // Part of the face the look shouldn't touch; by default the eye/nose band, above any beard and below any fringe
+  face: ImageRegion;
+  // Areas no hairstyle or beard should reach
+  background: ImageRegion[];
+}
+
+// Where the check looks: placed on the face detected in the original, or fixed regions when none is found
+export interface IdentityLayout {
+  fromFace: (scan: FaceScan) => IdentityRegions;
+  fallback: IdentityRegions;
+}
+
+// Background strips narrower than this share of the photo (a tight crop) are left out
+const MIN_BACKGROUND_WIDTH = 0.04;
+
+const clampRegion = ({ x, y, width, height }: ImageRegion): ImageRegion => {
+  const left = Math.max(0, x);
+  const top = Math.max(0, y);
+  return { x: left, y: top, width: Math.max(0, Math.min(1, x + width) - left), height: Math.max(0, Math.min(1, y + height) - top) };
+};
+
+// Beside the neck and shoulders, clear of any hair that may fall past the sides of the face
+const backgroundBeside = ({ box }: FaceScan): ImageRegion[] => {
+  const top = box.y + box.height * 0.5;
+  const height = box.height * 0.8;
+  const leftWidth = box.x - box.width * 0.5;
+  const rightStart = box.x + box.width * 1.5;
+  return [
+    { x: 0, y: top, width: leftWidth, height },
+    { x: rightStart, y: top, width: 1 - rightStart, height },
+  ]
+    .map(clampRegion)
+    .filter((region) => region.width >= MIN_BACKGROUND_WIDTH && region.height > 0);
+};
+
+// Key points are ordered as in faceDetection: eye corners (outer, inner, inner, outer), nose tip, mouth corners, chin
+const keyPoints = ({ keyPoints: points }: FaceScan) => ({
+  leftEye: points[0],
+  rightEye: points[3],
+  nose: points[4],
+  mouthLeft: points[5],
+  mouthRight: points[6],
+});
+
+// Fixed regions assume a centred, front-facing portrait like the upload guide asks for
+export const DEFAULT_IDENTITY_LAYOUT: IdentityLayout = {
+  // From just above the eyes down to the nose tip: above any beard and below any fringe
+  fromFace: (scan) => {
+    const { leftEye, rightEye, nose } = keyPoints(scan);
+    const left = Math.min(leftEye.x, rightEye.x);
+    const top = Math.min(leftEye.y, rightEye.y) - scan.box.height * 0.08;
+    return {
+      face: clampRegion({ x: left, y: top, width: Math.max(leftEye.x, rightEye.x) - left, height: nose.y - top }),
+      background: backgroundBeside(scan),
+    };
+  },
+  fallback: {
+    face: { x: 0.3, y: 0.36, width: 0.4, height: 0.24 },
+    background: [
+      { x: 0, y: 0.5, width: 0.14, height: 0.38 },
+      { x: 0.86, y: 0.5, width: 0.14, height: 0.38 },
+    ],
+  },
+};
+
+// Glasses cover the eye band, so eyewear previews are matched on the nose and mouth instead
+export const EYEWEAR_IDENTITY_LAYOUT: IdentityLayout = {
+  fromFace: (scan) => {
+    const { nose, mouthLeft, mouthRight } = keyPoints(scan);
+    const margin = scan.box.width * 0.1;
+    const left = Math.min(mouthLeft.x, mouthRight.x) - margin;
+    const top = nose.y - scan.box.height * 0.05;
+    return {
+      face: clampRegion({
+        x: left,
+        y: top,
+        width: Math.max(mouthLeft.x, mouthRight.x) + margin - left,
+        height: Math.max(mouthLeft.y, mouthRight.y) + scan.box.height * 0.08 - top,
+      }),
+      background: backgroundBeside(scan),
+    };
+  },
+  fallback: {
+    ...DEFAULT_IDENTITY_LAYOUT.fallback,
+    face: { x: 0.34, y: 0.56, width: 0.32, height: 0.2 },
+  },
+};
+
+// Every preview of a session is checked against the same photo, so its face is only looked for once
+let located: { image: string; scan: Promise<FaceScan | undefined> } | null = null;
+
+const locateFace = (originalBase64: string) => {
+  if (located?.image !== originalBase64) {
+    const scan = fetch(originalBase64)
+      .then((response) => response.blob())
+      .then(inspectFace)
+      .then(
+        (inspection) => inspection?.scan,
+        (err) => {
+          console.warn("Face detection for the identity check failed", err);
+          return undefined;
+        },
+      );
+    located = { image: originalBase64, scan };
+  }
+  return located.scan;
+};
+
+const samplePixels = async (dataUrl: string): Promise<Uint8ClampedArray> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement("canvas");
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    bitmap.close();
+    throw new Error("Canvas is not supported in this environment.");
+  }
+  // Stretching both to the same square keeps pixel positions comparable even if the model changed the aspect ratio
+  ctx.drawImage(bitmap, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  bitmap.close();
+  return ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data;
+};
+
+// Pixel offsets (into RGBA data) covered by a normalized region
+const regionOffsets = (region: ImageRegion): number[] => {
+  const left = Math.max(0, Math.floor(region.x * SAMPLE_SIZE));
+  const top = Math.max(0, Math.floor(region.y * SAMPLE_SIZE));
+  const right = Math.min(SAMPLE_SIZE, Math.ceil((region.x + region.width) * SAMPLE_SIZE));
+  const bottom = Math.min(SAMPLE_SIZE, Math.ceil((region.y + region.height) * SAMPLE_SIZE));
+  const offsets: number[] = [];
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) offsets.push((y * SAMPLE_SIZE + x) * 4);
+  }
+  return offsets;
+};
+
+const luminance = (data: Uint8ClampedArray, offset: number) =>
+  0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+
+// Pearson correlation of luminance, so a global brightness or tint shift doesn't count as a different face
+const faceSimilarity = (a: Uint8ClampedArray, b: Uint8ClampedArray, region: ImageRegion) => {
+  const offsets = regionOffsets(region);
+  const la = offsets.map((offset) => luminance(a, offset));
+  const lb = offsets.map((offset) => luminance(b, offset));
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const ma = mean(la);
+  const mb = mean(lb);
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < offsets.length; i++) {
+    covariance += (la[i] - ma) * (lb[i] - mb);
+    varianceA += (la[i] - ma) ** 2;
+    varianceB += (lb[i] - mb) ** 2;
+  }
+  // A flat region (blank photo) has nothing to compare; don't flag it
+  if (varianceA === 0 || varianceB === 0) return 1;
+  return covariance / Math.sqrt(varianceA * varianceB);
+};
+
+const backgroundChange = (a: Uint8ClampedArray, b: Uint8ClampedArray, regions: ImageRegion[]) => {
+  const offsets = regions.flatMap(regionOffsets);
+  if (offsets.length === 0) return 0;
+  let total = 0;
+  for (const offset of offsets) {
+    for (let channel = 0; channel < 3; channel++) total += Math.abs(a[offset + channel] - b[offset + channel]);
+  }
+  return total / (offsets.length * 3 * 255);
+};
+
+/**
+ * Compares a generated preview with the uploaded photo: the eye/nose band must still
+ * correlate with the original and the background strips must be close to unchanged.
+ * Both are placed from the face landmarks of the original, so off-centre or tightly
+ * cropped photos are checked where the face actually is.
+ * Returns null when the images can't be decoded, which leaves the preview unverified.
+ */
+export const checkIdentity = async (
+  originalBase64: string,
+  generatedImage: string,
+  layout: IdentityLayout = DEFAULT_IDENTITY_LAYOUT,
+): Promise<IdentityCheck | null> => {
+  try {
+    const [original, generated, scan] = await Promise.all([
+      samplePixels(originalBase64),
+      samplePixels(generatedImage),
+      locateFace(originalBase64),
+    ]);
+    const regions = scan ? layout.fromFace(scan) : layout.fallback;
+    const similarity = faceSimilarity(original, generated, regions.face);
+    const change = backgroundChange(original, generated, regions.background);
+    const issues: string[] = [];
+    if (similarity < MIN_FACE_SIMILARITY) issues.push("The face may not look like you.");
+    if (change > MAX_BACKGROUND_CHANGE) issues.push("The background or clothing changed.");
+    return { faceSimilarity: similarity, backgroundChange: change, passed: issues.length === 0, issues };
+  } catch (err) {
+    console.warn("Identity check skipped", err);
+    return null;
+  }
+};
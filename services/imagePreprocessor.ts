@@ -0,0 +1,191 @@
+import { ImageRegion } from '../types';
+
+export interface PreprocessOptions {
+  // Longest edge of the re-encoded image, in pixels
+  maxDimension: number;
+  mimeType: 'image/jpeg' | 'image/webp' | 'image/png';
+  quality: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: 1536,
+  mimeType: 'image/jpeg',
+  quality: 0.9,
+};
+
+// Upper bound for the raw upload; anything within it is shrunk locally before analysis
+export const MAX_SOURCE_FILE_BYTES = 25 * 1024 * 1024;
+
+export interface PreprocessedImage {
+  file: File;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+export class ImagePreprocessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImagePreprocessError";
+  }
+}
+
+const HEIC_PATTERN = /\.(heic|heif)$/i;
+
+export const isHeic = (file: File) => /image\/hei[cf]/i.test(file.type) || HEIC_PATTERN.test(file.name);
+
+export const isAcceptedImageFile = (file: File) => file.type.startsWith('image/') || isHeic(file);
+
+// Splits a data URL into the MIME type and raw base64 payload the model APIs expect
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const match = dataUrl.match(/^data:([^;,]+)(?:;[^,]*)?,(.*)$/);
+  if (match) {
+    return { mimeType: match[1], data: match[2] };
+  }
+  // Bare base64 without a header: assume the historical JPEG default
+  return { mimeType: 'image/jpeg', data: dataUrl };
+};
+
+// Browsers without native HEIC support (everything but Safari) go through a lazily loaded WASM decoder
+const convertHeic = async (file: File): Promise<Blob> => {
+  const { default: heic2any } = await import('heic2any');
+  const result = await heic2any({ blob: file, toType: 'image/png' });
+  return Array.isArray(result) ? result[0] : result;
+};
+
+// createImageBitmap applies the EXIF orientation tag so portrait phone shots come out upright
+const decode = async (blob: Blob): Promise<ImageBitmap> =>
+  createImageBitmap(blob, { imageOrientation: 'from-image' });
+
+const decodeSource = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await decode(file);
+  } catch {
+    if (!isHeic(file)) {
+      throw new ImagePreprocessError("We couldn't read this image. Please upload a JPG, PNG or WebP photo.");
+    }
+  }
+  try {
+    return await decode(await convertHeic(file));
+  } catch (err) {
+    console.error("HEIC decode failed", err);
+    throw new ImagePreprocessError("We couldn't convert this HEIC photo. Please export it as JPG and try again.");
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new ImagePreprocessError("Failed to encode the processed image."))),
+      mimeType,
+      quality,
+    );
+  });
+
+const EXTENSIONS: Record<PreprocessOptions['mimeType'], string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/png': 'png',
+};
+
+/**
+ * Decodes any accepted image, applies EXIF orientation, downsizes it and re-encodes it.
+ * Drawing through a canvas drops all metadata (GPS, camera serials, ...) so nothing but
+ * pixels ever leaves the browser.
+ */
+export const preprocessImage = async (
+  file: File,
+  options: Partial<PreprocessOptions> = {},
+): Promise<PreprocessedImage> => {
+  const { maxDimension, mimeType, quality } = { ...DEFAULT_PREPROCESS_OPTIONS, ...options };
+
+  const bitmap = await decodeSource(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new ImagePreprocessError("Image processing is not supported in this browser.");
+  }
+
+  // JPEG has no alpha channel; flatten transparent PNGs onto white instead of black
+  if (mimeType === 'image/jpeg') {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await canvasToBlob(canvas, mimeType, quality);
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'photo';
+
+  return {
+    file: new File([blob], `${baseName}.${EXTENSIONS[mimeType]}`, { type: mimeType, lastModified: Date.now() }),
+    mimeType,
+    width,
+    height,
+  };
+};
+
+// Crops an already preprocessed photo to a normalized region (used to zoom in on a small face)
+export const cropImage = async (
+  file: File,
+  region: ImageRegion,
+  options: Partial<PreprocessOptions> = {},
+): Promise<PreprocessedImage> => {
+  const { mimeType, quality } = { ...DEFAULT_PREPROCESS_OPTIONS, ...options };
+  const bitmap = await createImageBitmap(file);
+  const sx = Math.round(region.x * bitmap.width);
+  const sy = Math.round(region.y * bitmap.height);
+  const width = Math.round(region.width * bitmap.width);
+  const height = Math.round(region.height * bitmap.height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new ImagePreprocessError("Image processing is not supported in this browser.");
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, sx, sy, width, height, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await canvasToBlob(canvas, mimeType, quality);
+  return {
+    file: new File([blob], file.name, { type: mimeType, lastModified: Date.now() }),
+    mimeType,
+    width,
+    height,
+  };
+};
+
+// Square-cropped JPEG thumbnail for list views (history, saved looks)
+export const createThumbnail = async (dataUrl: string, size = 160): Promise<string> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  const bitmap = await createImageBitmap(blob);
+  const side = Math.min(bitmap.width, bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new ImagePreprocessError("Image processing is not supported in this browser.");
+  }
+  ctx.drawImage(bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, 0, 0, size, size);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+export const dataUrlToFile = async (dataUrl: string, name: string): Promise<File> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  return new File([blob], name, { type: blob.type });
+};
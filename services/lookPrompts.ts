@@ -0,0 +1,43 @@
+import { EditRegion, StyleCombination, StyleRecommendation } from "../types";
+import { FeatureSection } from "./analysisModes";
+
+// Prompt text handed to generateLookPreview for a curated or saved combination
+export const describeCombination = (combination: StyleCombination): string => {
+  const promptParts = [];
+  if (combination.hairstyle) promptParts.push(`Hairstyle: ${combination.hairstyle}`);
+  if (combination.facialHair) promptParts.push(`Facial Hair: ${combination.facialHair}`);
+
+  return `${promptParts.join('. ')}. Look details: ${combination.description}`;
+};
+
+// Prompt text for a hand-picked Style Playground pairing
+export const describeCustomLook = (hairstyle: string | null, facialHair: string | null): string => {
+  const hairPart = hairstyle ? `Hairstyle: ${hairstyle}` : '';
+  const beardPart = facialHair ? `Facial Hair: ${facialHair}` : '';
+  return `${hairPart}. ${beardPart}. Create a cohesive look.`;
+};
+
+// Prompt text for the single-feature modes; each keeps the haircut and beard untouched
+const FEATURE_PROMPTS: Record<FeatureSection, (recommendation: StyleRecommendation) => string> = {
+  hairColors: (rec) => `Hair color: ${rec.name}. ${rec.description} Keep the haircut, length and facial hair exactly the same; only recolor the hair.`,
+  eyebrows: (rec) => `Eyebrows: ${rec.name}. ${rec.description} Only groom and reshape the eyebrows; keep hair, facial hair and everything else unchanged.`,
+  eyewear: (rec) => `Glasses: add ${rec.name} frames. ${rec.description} Fit them naturally on the face with realistic lens reflections; keep everything else unchanged.`,
+};
+
+export const describeFeatureLook = (section: FeatureSection, recommendation: StyleRecommendation): string =>
+  FEATURE_PROMPTS[section](recommendation);
+
+// Parts of the photo a hair/beard look may repaint; the rest is composited back from the original
+export const lookEditRegions = (hairstyle?: string | null, facialHair?: string | null): EditRegion[] => {
+  const regions: EditRegion[] = [];
+  if (hairstyle) regions.push('hair');
+  if (facialHair) regions.push('facialHair');
+  return regions;
+};
+
+// Brows and glasses sit on the face itself, so those previews are only resized to the original
+export const FEATURE_EDIT_REGIONS: Record<FeatureSection, EditRegion[]> = {
+  hairColors: ['hair'],
+  eyebrows: [],
+  eyewear: [],
+};
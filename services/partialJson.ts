@@ -0,0 +1,133 @@
+// Result of reading one value; `done` is false when the text ended inside it
+interface ReadResult {
+  value: unknown;
+  done: boolean;
+}
+
+class InvalidJsonError extends Error {
+  constructor(position: number) {
+    super(`Unexpected character at position ${position}`);
+    this.name = "InvalidJsonError";
+  }
+}
+
+const LITERAL = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+const KEYWORDS = ["true", "false", "null"];
+
+/**
+ * Reads the complete part of a JSON document that is still streaming in. Open objects and
+ * arrays are returned with the members received so far; a trailing string, number or key
+ * that may still grow is left out rather than shown half-written. Returns undefined when
+ * the text has no readable value yet or isn't JSON at all.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const readString = (): ReadResult => {
+    const start = pos;
+    pos++;
+    while (pos < text.length) {
+      if (text[pos] === "\\") {
+        pos += 2;
+        continue;
+      }
+      if (text[pos] === '"') {
+        pos++;
+        return { value: JSON.parse(text.slice(start, pos)), done: true };
+      }
+      pos++;
+    }
+    return { value: undefined, done: false };
+  };
+
+  const readLiteral = (): ReadResult => {
+    LITERAL.lastIndex = pos;
+    const match = LITERAL.exec(text);
+    if (match) {
+      pos += match[0].length;
+      // A number at the very end may still gain digits
+      if (pos >= text.length && !KEYWORDS.includes(match[0])) return { value: undefined, done: false };
+      return { value: JSON.parse(match[0]), done: true };
+    }
+    const rest = text.slice(pos);
+    if (rest === "-" || KEYWORDS.some((keyword) => keyword.startsWith(rest))) {
+      pos = text.length;
+      return { value: undefined, done: false };
+    }
+    throw new InvalidJsonError(pos);
+  };
+
+  const readArray = (): ReadResult => {
+    const items: unknown[] = [];
+    pos++;
+    for (;;) {
+      skipWhitespace();
+      if (pos >= text.length) return { value: items, done: false };
+      if (text[pos] === "]") {
+        pos++;
+        return { value: items, done: true };
+      }
+      if (text[pos] === ",") {
+        pos++;
+        continue;
+      }
+      const item = readValue();
+      if (item.value !== undefined) items.push(item.value);
+      if (!item.done) return { value: items, done: false };
+    }
+  };
+
+  const readObject = (): ReadResult => {
+    const object: Record<string, unknown> = {};
+    pos++;
+    for (;;) {
+      skipWhitespace();
+      if (pos >= text.length) return { value: object, done: false };
+      if (text[pos] === "}") {
+        pos++;
+        return { value: object, done: true };
+      }
+      if (text[pos] === ",") {
+        pos++;
+        continue;
+      }
+      if (text[pos] !== '"') throw new InvalidJsonError(pos);
+      const key = readString();
+      skipWhitespace();
+      if (!key.done || pos >= text.length) return { value: object, done: false };
+      if (text[pos] !== ":") throw new InvalidJsonError(pos);
+      pos++;
+      skipWhitespace();
+      if (pos >= text.length) return { value: object, done: false };
+      const member = readValue();
+      if (member.value !== undefined) object[key.value as string] = member.value;
+      if (!member.done) return { value: object, done: false };
+    }
+  };
+
+  const readValue = (): ReadResult => {
+    skipWhitespace();
+    if (pos >= text.length) return { value: undefined, done: false };
+    switch (text[pos]) {
+      case "{":
+        return readObject();
+      case "[":
+        return readArray();
+      case '"':
+        return readString();
+      default:
+        return readLiteral();
+    }
+  };
+
+  try {
+    return readValue().value;
+  } catch (error) {
+    if (error instanceof InvalidJsonError || error instanceof SyntaxError) return undefined;
+    throw error;
+  }
+};
@@ -0,0 +1,114 @@
+import {
+  BarberVisits,
+  BeardGrowth,
+  HairDensity,
+  HairTexture,
+  Lifestyle,
+  StylingTime,
+  UserPreferences,
+} from "../types";
+
+const PREFERENCES_KEY = 'sharpAI_preferences';
+
+export interface PreferenceOption<T extends string> {
+  value: T;
+  label: string;
+  // Phrase used in the analysis prompt
+  prompt: string;
+}
+
+export const HAIR_TEXTURE_OPTIONS: PreferenceOption<HairTexture>[] = [
+  { value: 'straight', label: 'Straight', prompt: "straight hair" },
+  { value: 'wavy', label: 'Wavy', prompt: "wavy hair" },
+  { value: 'curly', label: 'Curly', prompt: "curly hair" },
+  { value: 'coily', label: 'Coily', prompt: "coily / afro-textured hair" },
+];
+
+export const HAIR_DENSITY_OPTIONS: PreferenceOption<HairDensity>[] = [
+  { value: 'full', label: 'Full', prompt: "full, dense hair" },
+  { value: 'thinning', label: 'Thinning', prompt: "thinning hair on top" },
+  { value: 'receding', label: 'Receding', prompt: "a receding hairline" },
+  { value: 'bald', label: 'Balding / Bald', prompt: "significant hair loss or a shaved head" },
+];
+
+export const LIFESTYLE_OPTIONS: PreferenceOption<Lifestyle>[] = [
+  { value: 'corporate', label: 'Corporate', prompt: "a conservative, corporate workplace dress code" },
+  { value: 'creative', label: 'Creative', prompt: "a creative field where bold styles are welcome" },
+  { value: 'active', label: 'Active / Sport', prompt: "an active, sporty lifestyle (helmets, sweat, swimming)" },
+  { value: 'casual', label: 'Casual', prompt: "a relaxed, casual lifestyle" },
+];
+
+export const STYLING_TIME_OPTIONS: PreferenceOption<StylingTime>[] = [
+  { value: 'none', label: 'Wash & go', prompt: "no daily styling at all (wash and go)" },
+  { value: 'quick', label: 'Under 5 min', prompt: "under 5 minutes of styling a day" },
+  { value: 'moderate', label: '5-15 min', prompt: "5-15 minutes of styling a day" },
+  { value: 'enjoys', label: 'Enjoys styling', prompt: "enjoys spending time styling every day" },
+];
+
+export const BARBER_VISIT_OPTIONS: PreferenceOption<BarberVisits>[] = [
+  { value: 'frequent', label: 'Every 2-3 weeks', prompt: "a barber visit every 2-3 weeks" },
+  { value: 'monthly', label: 'Monthly', prompt: "a barber visit about once a month" },
+  { value: 'rare', label: 'Every 2+ months', prompt: "a barber visit every two months or less often" },
+];
+
+export const BEARD_GROWTH_OPTIONS: PreferenceOption<BeardGrowth>[] = [
+  { value: 'full', label: 'Full', prompt: "grows a full, even beard" },
+  { value: 'patchy', label: 'Patchy', prompt: "beard growth is patchy (especially on the cheeks)" },
+  { value: 'light', label: 'Light', prompt: "beard growth is light or slow" },
+  { value: 'none', label: "Can't grow one", prompt: "cannot grow a beard" },
+];
+
+export const EMPTY_PREFERENCES: UserPreferences = { excludedStyles: [] };
+
+export const loadPreferences = (): UserPreferences => {
+  try {
+    const saved = localStorage.getItem(PREFERENCES_KEY);
+    if (!saved) return EMPTY_PREFERENCES;
+    const parsed = JSON.parse(saved) as Partial<UserPreferences>;
+    return { ...parsed, excludedStyles: Array.isArray(parsed.excludedStyles) ? parsed.excludedStyles : [] };
+  } catch (err) {
+    console.error('Error reading preferences', err);
+    return EMPTY_PREFERENCES;
+  }
+};
+
+export const savePreferences = (preferences: UserPreferences) => {
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (err) {
+    console.error('Error saving preferences', err);
+  }
+};
+
+export const hasPreferences = (preferences: UserPreferences | undefined): preferences is UserPreferences =>
+  !!preferences && (
+    preferences.excludedStyles.length > 0 ||
+    [preferences.hairTexture, preferences.hairDensity, preferences.lifestyle, preferences.stylingTime, preferences.barberVisits, preferences.beardGrowth].some(Boolean)
+  );
+
+const promptLine = <T extends string>(label: string, options: PreferenceOption<T>[], value: T | undefined) => {
+  const text = options.find((option) => option.value === value)?.prompt;
+  return text ? `- ${label}: ${text}` : null;
+};
+
+// One constraint per line, ready to drop into a system instruction
+export const describePreferences = (preferences: UserPreferences): string => {
+  const lines = [
+    promptLine("Hair texture", HAIR_TEXTURE_OPTIONS, preferences.hairTexture),
+    promptLine("Hair density", HAIR_DENSITY_OPTIONS, preferences.hairDensity),
+    promptLine("Lifestyle", LIFESTYLE_OPTIONS, preferences.lifestyle),
+    promptLine("Daily styling time", STYLING_TIME_OPTIONS, preferences.stylingTime),
+    promptLine("Maintenance budget", BARBER_VISIT_OPTIONS, preferences.barberVisits),
+    promptLine("Beard growth", BEARD_GROWTH_OPTIONS, preferences.beardGrowth),
+    preferences.excludedStyles.length > 0
+      ? `- Refuses these styles (never recommend them): ${preferences.excludedStyles.join(", ")}`
+      : null,
+  ];
+  return lines.filter(Boolean).join("\n");
+};
+
+// Case-insensitive substring match, so excluding "Pompadour" also catches "Modern Pompadour"
+export const isExcludedStyle = (name: string, excludedStyles: string[]) => {
+  const lower = name.toLowerCase();
+  return excludedStyles.some((style) => style.trim() && lower.includes(style.trim().toLowerCase()));
+};
@@ -0,0 +1,240 @@
+import { GoogleGenAI, Type, Schema, GenerateContentResponse, FinishReason, Part, Content } from "@google/genai";
+import { AnalysisResult, AnalysisMode, AnalyzeOptions, PreviewOptions, ProfileAngle, RefinementContext, StyleAIProvider, StyleAIErrorKind } from "../../types";
+import { parseAnalysisJson } from "../analysisValidator";
+import { parsePartialJson } from "../partialJson";
+import { StyleAIError } from "../errors";
+import { parseDataUrl } from "../imagePreprocessor";
+import { describePreferences, hasPreferences } from "../preferences";
+import { getModeDefinition, orderedObject, SECTION_SCHEMAS } from "../analysisModes";
+
+const ANALYSIS_MODEL = "gemini-2.5-flash";
+const PREVIEW_MODEL = "gemini-2.5-flash-image";
+
+const BASE_SYSTEM_INSTRUCTION = `
+You are an expert professional stylist and barber with deep knowledge of face shapes, aesthetics, and grooming.
+Your task is to analyze a user's facial image and provide personalized recommendations.
+1. Identify the user's face shape (e.g., Oval, Round, Square, Diamond, Heart, Oblong).
+2. Analyze key facial features (jawline, forehead, cheekbones).
+3. Recommend styles based on the specific request mode.
+4. Provide 3-4 general grooming or styling tips.
+If no single human face is clearly visible, set faceDetected to false and leave every list empty.
+
+Hairstyle and facial hair names must come from the style catalog in the response schema; describe variations (e.g. fade height, fringe length) in 'description' and 'spec' rather than inventing new names.
+Be specific about WHY a style works (e.g., "Adds volume to top to elongate a round face").
+For every hairstyle and facial hair style, fill 'spec' with concrete measurements a barber can cut from: lengths in cm or mm, clipper guard numbers (e.g. "#2 (6mm)"), fade type and height, neckline shape, and how often it needs a touch-up.
+`;
+
+// Fields every mode returns; the mode registry adds its own sections on top
+const BASE_RESPONSE_PROPERTIES: Record<string, Schema> = {
+  faceDetected: {
+    type: Type.BOOLEAN,
+    description: "False when no single, clearly visible human face is present in the image.",
+  },
+  faceShape: {
+    type: Type.STRING,
+    description: "The identified shape of the face (e.g., Oval, Square).",
+  },
+  faceAnalysis: {
+    type: Type.STRING,
+    description: "A brief analysis of the facial features contributing to this shape.",
+  },
+  groomingTips: {
+    type: Type.ARRAY,
+    description: "General grooming tips.",
+    items: { type: Type.STRING },
+  },
+  angleObservations: {
+    type: Type.ARRAY,
+    description: "One entry per profile photo provided. Omit or leave empty when only a front photo was sent.",
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        angle: { type: Type.STRING, enum: Object.values(ProfileAngle), description: "Which profile photo this describes." },
+        headShape: { type: Type.STRING, description: "Back-of-head and occipital shape as seen from the side." },
+        jawProjection: { type: Type.STRING, description: "Jaw and chin projection, jaw angle definition." },
+        crown: { type: Type.STRING, description: "Crown shape, cowlicks and whorls visible from this side." },
+        neckline: { type: Type.STRING, description: "Natural hairline at the nape and neck." },
+        beardGrowth: { type: Type.STRING, description: "Beard density and growth pattern along the jaw and cheek." },
+      },
+      required: ["angle", "headShape", "jawProjection", "crown", "neckline", "beardGrowth"],
+    },
+  },
+};
+
+// Property order is the order fields stream in: face shape and analysis first, tips last
+const buildResponseSchema = (mode: AnalysisMode): Schema => {
+  const definition = getModeDefinition(mode);
+  const { groomingTips, ...leadingProperties } = BASE_RESPONSE_PROPERTIES;
+  const sectionProperties = Object.fromEntries(
+    definition.sections.map((section) => [section, SECTION_SCHEMAS[section]]),
+  );
+  return orderedObject(
+    { ...leadingProperties, ...definition.extraSchema, ...sectionProperties, groomingTips },
+    ["faceDetected", "faceShape", "faceAnalysis", ...definition.sections, ...Object.keys(definition.extraSchema ?? {}), "groomingTips"],
+  );
+};
+
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+// Surfaces prompt or output safety blocks as typed errors instead of an empty response
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new StyleAIError(StyleAIErrorKind.SAFETY_BLOCK, `Request blocked: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new StyleAIError(StyleAIErrorKind.SAFETY_BLOCK, `Response blocked: ${finishReason}`);
+  }
+};
+
+const PROFILE_LABELS: Record<ProfileAngle, string> = {
+  [ProfileAngle.LEFT_PROFILE]: "LEFT PROFILE (the person's left side)",
+  [ProfileAngle.RIGHT_PROFILE]: "RIGHT PROFILE (the person's right side)",
+};
+
+const imagePart = (base64: string): Part => {
+  const image = parseDataUrl(base64);
+  return { inlineData: { mimeType: image.mimeType, data: image.data } };
+};
+
+const analyzeFace = async (base64Image: string, mode: AnalysisMode, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  try {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+    const profiles = Object.values(ProfileAngle)
+      .filter((angle) => options.profileImages?.[angle])
+      .map((angle) => ({ angle, base64: options.profileImages![angle]! }));
+
+    let fullSystemInstruction = `${BASE_SYSTEM_INSTRUCTION}\n\nCURRENT MODE: ${getModeDefinition(mode).prompt}`;
+    if (profiles.length > 0) {
+      fullSystemInstruction += "\n\nPROFILE VIEWS: Side photos are included. Use them to judge head shape, crown, neckline and beard growth along the jaw, let them inform fade heights and beard necklines, and add one 'angleObservations' entry per profile photo.";
+    }
+    if (hasPreferences(options.preferences)) {
+      fullSystemInstruction += `\n\nUSER PROFILE (hard constraints, they outrank face-shape ideals):\n${describePreferences(options.preferences)}\nOnly recommend styles that fit every constraint above, and in each 'constraintFit' explain in one sentence how the style respects them (texture, density, styling time, upkeep, dress code, beard growth).`;
+    }
+
+    // Label every photo so the model knows which view it is looking at
+    const parts: Part[] = [];
+    if (profiles.length > 0) parts.push({ text: "FRONT VIEW:" });
+    parts.push(imagePart(base64Image));
+    for (const profile of profiles) {
+      parts.push({ text: `${PROFILE_LABELS[profile.angle]}:` });
+      parts.push(imagePart(profile.base64));
+    }
+    parts.push({ text: "Analyze this face and recommend styles based on the mode provided in system instructions." });
+
+    // Streamed so the UI can show the face shape and the first styles while the rest is written
+    const stream = await ai.models.generateContentStream({
+      model: ANALYSIS_MODEL,
+      contents: { parts },
+      config: {
+        systemInstruction: fullSystemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: buildResponseSchema(mode),
+      },
+    });
+
+    let text = "";
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      if (!chunk.text) continue;
+      text += chunk.text;
+      // As unchecked as the final result; the service facade normalizes it
+      options.onPartialResult?.(parsePartialJson(text) as Partial<AnalysisResult>);
+    }
+
+    if (text) {
+      // Shape is checked and repaired by validateAnalysisResult in the service facade
+      return parseAnalysisJson(text) as AnalysisResult;
+    } else {
+      throw new StyleAIError(StyleAIErrorKind.MALFORMED_RESPONSE, "No response text received from Gemini.");
+    }
+  } catch (error) {
+    console.error("Gemini Analysis Error:", error);
+    throw error;
+  }
+};
+
+const previewPrompt = (combinationDescription: string) => `Edit this image to show the person with the following style: ${combinationDescription}. 
+            Maintain the person's original identity, face shape, skin tone, and lighting. 
+            Change only what the style describes and make it look like a photorealistic after photo.`;
+
+// Shared by previews and refinements: both are a single image-edit call that must return an image part
+const requestImageEdit = async (contents: Content[], options: PreviewOptions): Promise<string> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  const response = await ai.models.generateContent({
+    model: PREVIEW_MODEL,
+    contents,
+    // Only stops waiting on our side; the request is still billed once sent
+    config: { abortSignal: options.signal, seed: options.seed },
+  });
+
+  assertNotBlocked(response);
+
+  // Extract image from response
+  if (response.candidates && response.candidates[0].content.parts) {
+      for (const part of response.candidates[0].content.parts) {
+          if (part.inlineData && part.inlineData.data) {
+              return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+          }
+      }
+  }
+  
+  throw new StyleAIError(StyleAIErrorKind.NO_IMAGE, `No image generated.${response.text ? ` Model said: ${response.text}` : ""}`);
+};
+
+const generateLookPreview = async (originalBase64: string, combinationDescription: string, options: PreviewOptions = {}): Promise<string> => {
+  try {
+    // The image model edits the uploaded photo rather than generating from scratch
+    return await requestImageEdit(
+      [{ role: "user", parts: [imagePart(originalBase64), { text: previewPrompt(combinationDescription) }] }],
+      options,
+    );
+  } catch (error) {
+    console.error("Image Generation Error:", error);
+    throw error;
+  }
+};
+
+// Replays the original edit as a conversation so the model treats the instruction as a follow-up to its own image
+const refineLookPreview = async (currentImage: string, instruction: string, context: RefinementContext, options: PreviewOptions = {}): Promise<string> => {
+  try {
+    const applied = context.previousInstructions.length > 0
+      ? ` These adjustments are already applied: ${context.previousInstructions.join("; ")}.`
+      : "";
+    return await requestImageEdit(
+      [
+        { role: "user", parts: [imagePart(context.originalBase64), { text: previewPrompt(context.lookDescription) }] },
+        { role: "model", parts: [imagePart(currentImage)] },
+        {
+          role: "user",
+          parts: [{
+            text: `Now adjust your last image: ${instruction}.${applied} 
+            Keep everything else about the style, the person's identity, the background and the lighting exactly as in your last image.`,
+          }],
+        },
+      ],
+      options,
+    );
+  } catch (error) {
+    console.error("Image Refinement Error:", error);
+    throw error;
+  }
+};
+
+export const geminiProvider: StyleAIProvider = {
+  id: 'gemini',
+  models: { analysis: ANALYSIS_MODEL, preview: PREVIEW_MODEL },
+  analyzeFace,
+  generateLookPreview,
+  refineLookPreview,
+};
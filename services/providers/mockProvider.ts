@@ -0,0 +1,326 @@
+import {
+  AnalysisResult,
+  AnalysisMode,
+  AnalyzeOptions,
+  AngleObservation,
+  HairColorRecommendation,
+  PreviewOptions,
+  ProfileAngle,
+  RefinementContext,
+  StyleAIProvider,
+  StyleRecommendation,
+} from "../../types";
+import { hasPreferences } from "../preferences";
+import { wait } from "../errors";
+import { getModeDefinition, ResultSection } from "../analysisModes";
+
+// Simulated network latency so loading states are visible during offline development
+const MOCK_LATENCY_MS = 800;
+// Pause between fields when simulating a streamed analysis
+const MOCK_STREAM_STEP_MS = 300;
+
+// Same order the Gemini response schema streams fields in
+const STREAM_ORDER: (keyof AnalysisResult)[] = [
+  "faceShape",
+  "faceAnalysis",
+  "angleObservations",
+  "skinUndertone",
+  "hairstyles",
+  "facialHair",
+  "combinations",
+  "hairColors",
+  "eyebrows",
+  "eyewear",
+  "groomingTips",
+];
+
+const CANNED_HAIRSTYLES: StyleRecommendation[] = [
+  {
+    name: "Textured Crop",
+    description: "Short, choppy layers on top with a tight taper on the sides and a blunt fringe.",
+    reasoning: "The forward texture softens a strong forehead while the tight sides keep the jawline the focal point.",
+    spec: { topLength: "3-5cm, point cut", sideLength: "1.5mm-6mm", backLength: "3mm", clipperGuard: "#0.5 to #2", fadeType: "Taper", fadeHeight: "Mid", neckline: "Tapered", maintenanceInterval: "Every 3-4 weeks", difficulty: "Easy" },
+  },
+  {
+    name: "Quiff",
+    description: "Medium length on top brushed up and back with natural volume, short neat sides.",
+    reasoning: "Height on top elongates the face and balances wider cheekbones.",
+    spec: { topLength: "7-9cm at the front", sideLength: "10mm", backLength: "6-10mm", clipperGuard: "#2 to #3", fadeType: "Taper", fadeHeight: "Low", neckline: "Tapered", maintenanceInterval: "Every 4-5 weeks", difficulty: "Moderate" },
+  },
+  {
+    name: "Side Part",
+    description: "Classic tapered cut with a defined side part and a light matte finish.",
+    reasoning: "The asymmetric line breaks up facial symmetry and adds a polished, structured frame.",
+    spec: { topLength: "5-7cm", sideLength: "10-13mm", backLength: "10mm", clipperGuard: "#3 to #4", fadeType: "None", neckline: "Rounded", maintenanceInterval: "Every 4 weeks", difficulty: "Moderate" },
+  },
+  {
+    name: "Fade",
+    description: "Mid skin fade blending into a slightly longer, messy top.",
+    reasoning: "Clean sides slim the silhouette and draw attention to the eyes and cheekbones.",
+    spec: { topLength: "4-6cm", sideLength: "Skin to 6mm", backLength: "Skin to 6mm", clipperGuard: "#0 to #2", fadeType: "Skin fade", fadeHeight: "Mid", neckline: "Faded", maintenanceInterval: "Every 2-3 weeks", difficulty: "Easy" },
+  },
+];
+
+const CANNED_FACIAL_HAIR: StyleRecommendation[] = [
+  {
+    name: "Short Boxed Beard",
+    description: "Even length of about 1cm, crisp cheek line and a defined neckline.",
+    reasoning: "Adds definition to the jaw and squares off a softer chin.",
+    spec: { beardLength: { cheeks: "6mm (#2)", jawline: "10mm (#3)", chin: "12mm", mustache: "Trimmed to the lip line" }, clipperGuard: "#2 to #3", neckline: "One finger above the Adam's apple", maintenanceInterval: "Every 5-7 days", difficulty: "Moderate" },
+  },
+  {
+    name: "Heavy Stubble",
+    description: "Three to five days of growth kept uniform with a trimmer.",
+    reasoning: "Creates a subtle shadow that sharpens the jawline without adding bulk.",
+    spec: { beardLength: { cheeks: "3mm", jawline: "4mm", chin: "4mm", mustache: "4mm" }, clipperGuard: "#0.5 to #1", neckline: "Faded two fingers above the Adam's apple", maintenanceInterval: "Every 3-4 days", difficulty: "Easy" },
+  },
+  {
+    name: "Van Dyke",
+    description: "Disconnected mustache and pointed chin beard with clean cheeks.",
+    reasoning: "The vertical emphasis on the chin lengthens the lower half of the face.",
+    spec: { beardLength: { cheeks: "Shaved", jawline: "Shaved", chin: "15-20mm, pointed", mustache: "10mm, disconnected" }, clipperGuard: "#3 on the chin", neckline: "Shaved clean", maintenanceInterval: "Every 3-4 days", difficulty: "Advanced" },
+  },
+  {
+    name: "Anchor Beard",
+    description: "Pointed chin beard tracing the jaw, paired with a pencil mustache.",
+    reasoning: "Draws the eye downward and adds shape to a rounder jaw.",
+    spec: { beardLength: { cheeks: "Shaved", jawline: "6mm strip", chin: "10mm, pointed", mustache: "Pencil, 3mm" }, clipperGuard: "#1 to #2", neckline: "Shaved clean", maintenanceInterval: "Every 2-3 days", difficulty: "Advanced" },
+  },
+];
+
+const CANNED_COMBINATIONS = [
+  {
+    name: "The Modern Executive",
+    hairstyle: "Side Part",
+    facialHair: "Short Boxed Beard",
+    description: "A sharp side part with a neatly boxed beard for a confident, boardroom-ready look.",
+    reasoning: "Both styles share clean lines, giving a cohesive and structured silhouette.",
+  },
+  {
+    name: "Weekend Edge",
+    hairstyle: "Textured Crop",
+    facialHair: "Heavy Stubble",
+    description: "Low-effort texture on top with rugged stubble.",
+    reasoning: "Matching casual textures keep the look relaxed while still framing the face.",
+  },
+  {
+    name: "Sharp Contrast",
+    hairstyle: "Fade",
+    facialHair: "Van Dyke",
+    description: "Tight faded sides with a statement chin beard.",
+    reasoning: "Short sides let the facial hair become the feature without competing for attention.",
+  },
+];
+
+const CANNED_TIPS = [
+  "Use a **matte clay** rather than gel to keep texture looking natural.",
+  "Book a trim every **3-4 weeks** to keep the sides and neckline crisp.",
+  "Apply **beard oil** after showering while pores are open.",
+  "Wash hair with lukewarm water to avoid stripping natural oils.",
+];
+
+const CANNED_ANGLE_OBSERVATION: Omit<AngleObservation, "angle"> = {
+  headShape: "Slightly flat at the back of the head; extra length over the occipital bone will round it out.",
+  jawProjection: "Moderate chin projection with a soft jaw angle.",
+  crown: "Single clockwise whorl at the crown; keep at least 3cm there to stop it standing up.",
+  neckline: "Natural hairline sits low and fairly straight; suits a tapered neckline.",
+  beardGrowth: "Dense on the chin and mustache, lighter along the upper cheek line.",
+};
+
+const CANNED_HAIR_COLORS: HairColorRecommendation[] = [
+  {
+    name: "Chestnut Brown",
+    description: "Rich mid-brown with subtle red warmth, applied as a single process.",
+    reasoning: "Warm pigments echo the golden undertone and keep the complexion from looking sallow.",
+    swatch: "#6B3E26",
+  },
+  {
+    name: "Honey Highlights",
+    description: "Fine babylights two shades lighter than the natural base, concentrated on top.",
+    reasoning: "Soft brightness around the face lifts warm skin without a harsh grow-out line.",
+    swatch: "#B8864B",
+  },
+  {
+    name: "Dark Espresso",
+    description: "Deep, glossy brown just short of black.",
+    reasoning: "Raises contrast against medium skin for a sharper, more defined look.",
+    swatch: "#3B2417",
+  },
+  {
+    name: "Natural Grey Blending",
+    description: "Translucent demi-permanent colour that softens greys rather than covering them.",
+    reasoning: "Low-maintenance option that keeps the natural undertone balance.",
+    swatch: "#8A8178",
+  },
+];
+
+const CANNED_EYEBROWS: StyleRecommendation[] = [
+  {
+    name: "Soft Straight Brow",
+    description: "Tidy strays under the brow and between the eyes; keep the natural thickness and a nearly flat line.",
+    reasoning: "A straight brow widens the upper face slightly and balances an oval shape.",
+  },
+  {
+    name: "Natural Low Arch",
+    description: "Lift the arch just past the outer edge of the iris and trim long hairs to 1cm.",
+    reasoning: "A gentle arch opens up the eyes without looking groomed.",
+  },
+  {
+    name: "Clean Gap",
+    description: "Clear the centre gap to the width of the inner eye corners; leave the tails untouched.",
+    reasoning: "Separating the brows makes the eyes look more spaced and the face less heavy.",
+  },
+];
+
+const CANNED_EYEWEAR: StyleRecommendation[] = [
+  {
+    name: "Rectangular Acetate",
+    description: "Medium-thick black or tortoiseshell acetate, frame slightly wider than the cheekbones.",
+    reasoning: "Straight lines add structure to softer oval features.",
+  },
+  {
+    name: "Clubmaster Browline",
+    description: "Heavy upper rim with a thin metal lower rim.",
+    reasoning: "Emphasises the brow line and adds a confident horizontal accent.",
+  },
+  {
+    name: "Round Wire",
+    description: "Thin gold or gunmetal round frames with a keyhole bridge.",
+    reasoning: "A light, curved frame contrasts with a defined jaw without overpowering it.",
+  },
+  {
+    name: "Aviator",
+    description: "Teardrop metal frames with a double bridge.",
+    reasoning: "The wide top and tapered bottom mirror balanced oval proportions.",
+  },
+];
+
+// Mirrors the mode registry so every mode renders something offline
+const buildCannedResult = (mode: AnalysisMode): AnalysisResult => {
+  const { sections } = getModeDefinition(mode);
+  const has = (section: ResultSection) => sections.includes(section);
+  // The complete makeover asks for fewer of each, like the real prompt
+  const count = has("hairstyles") && has("facialHair") ? 3 : undefined;
+
+  const result: AnalysisResult = {
+    faceShape: "Oval",
+    faceAnalysis: "Balanced proportions with a gently rounded jaw, medium forehead and softly defined cheekbones.",
+    groomingTips: [...CANNED_TIPS],
+    hairstyles: has("hairstyles") ? CANNED_HAIRSTYLES.slice(0, count) : [],
+    facialHair: has("facialHair") ? CANNED_FACIAL_HAIR.slice(0, count) : [],
+    combinations: has("combinations")
+      ? CANNED_COMBINATIONS.map((combo) => ({
+          ...combo,
+          hairstyle: has("hairstyles") ? combo.hairstyle : "",
+          facialHair: has("facialHair") ? combo.facialHair : "",
+        }))
+      : [],
+  };
+  if (has("hairColors")) {
+    result.skinUndertone = "Warm, medium contrast";
+    result.hairColors = [...CANNED_HAIR_COLORS];
+  }
+  if (has("eyebrows")) result.eyebrows = [...CANNED_EYEBROWS];
+  if (has("eyewear")) result.eyewear = [...CANNED_EYEWEAR];
+  return result;
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Mock provider could not decode the source image."));
+    img.src = src;
+  });
+
+// Deterministic hue derived from the prompt so each look gets a stable, distinguishable tint
+const hueForText = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return hash % 360;
+};
+
+const analyzeFace = async (_base64Image: string, mode: AnalysisMode, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  await wait(MOCK_LATENCY_MS);
+  const result = buildCannedResult(mode);
+  const angles = Object.values(ProfileAngle).filter((angle) => options.profileImages?.[angle]);
+  if (angles.length > 0) {
+    result.angleObservations = angles.map((angle) => ({ angle, ...CANNED_ANGLE_OBSERVATION }));
+  }
+  // Canned styles don't adapt; the note keeps the constraint UI exercised (exclusions are still filtered by the validator)
+  if (hasPreferences(options.preferences)) {
+    const constraintFit = "Mock response: canned style, not tailored to your preferences.";
+    result.hairstyles = result.hairstyles.map((style) => ({ ...style, constraintFit }));
+    result.facialHair = result.facialHair.map((style) => ({ ...style, constraintFit }));
+    result.combinations = result.combinations.map((combo) => ({ ...combo, constraintFit }));
+  }
+  // Reveal the canned result one field at a time, like a streamed response
+  if (options.onPartialResult) {
+    const partial: Partial<AnalysisResult> = {};
+    for (const field of STREAM_ORDER) {
+      if (result[field] === undefined) continue;
+      Object.assign(partial, { [field]: result[field] });
+      options.onPartialResult({ ...partial });
+      await wait(MOCK_STREAM_STEP_MS);
+    }
+  }
+  return result;
+};
+
+// Tints the upper part of the frame, roughly where hair sits, and captions it so the "edit" is visible
+const renderMockEdit = async (sourceBase64: string, hueSource: string, caption: string, signal?: AbortSignal): Promise<string> => {
+  await wait(MOCK_LATENCY_MS, signal);
+
+  const src = sourceBase64.startsWith("data:") ? sourceBase64 : `data:image/jpeg;base64,${sourceBase64}`;
+  const img = await loadImage(src);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this environment.");
+
+  ctx.drawImage(img, 0, 0);
+
+  const hue = hueForText(hueSource);
+  const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height * 0.5);
+  gradient.addColorStop(0, `hsla(${hue}, 70%, 45%, 0.45)`);
+  gradient.addColorStop(1, `hsla(${hue}, 70%, 45%, 0)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height * 0.5);
+
+  // Caption band
+  const bandHeight = Math.max(28, Math.round(canvas.height * 0.08));
+  ctx.fillStyle = "rgba(0, 0, 0, 0.65)";
+  ctx.fillRect(0, canvas.height - bandHeight, canvas.width, bandHeight);
+  ctx.fillStyle = "#CFB53B";
+  ctx.font = `bold ${Math.round(bandHeight * 0.4)}px sans-serif`;
+  ctx.textBaseline = "middle";
+  ctx.fillText(caption, bandHeight * 0.4, canvas.height - bandHeight / 2, canvas.width - bandHeight * 0.8);
+
+  return canvas.toDataURL("image/png");
+};
+
+const generateLookPreview = (originalBase64: string, combinationDescription: string, options: PreviewOptions = {}): Promise<string> => {
+  const seedLabel = options.seed === undefined ? "" : ` · seed ${options.seed}`;
+  return renderMockEdit(
+    originalBase64,
+    `${combinationDescription}${options.seed ?? ""}`,
+    `MOCK PREVIEW · ${combinationDescription.split(".")[0]}${seedLabel}`,
+    options.signal,
+  );
+};
+
+// Paints over the current preview, so stacked refinements stay visible as stacked tints and captions
+const refineLookPreview = (currentImage: string, instruction: string, _context: RefinementContext, options: PreviewOptions = {}): Promise<string> =>
+  renderMockEdit(currentImage, instruction, `MOCK REFINE · ${instruction}`, options.signal);
+
+export const mockProvider: StyleAIProvider = {
+  id: 'mock',
+  models: { analysis: 'mock-analysis', preview: 'mock-preview' },
+  analyzeFace,
+  generateLookPreview,
+  refineLookPreview,
+};
@@ -0,0 +1,114 @@
+import { STORES, withStore, requestToPromise } from "./db";
+
+// Least recently used entries are evicted once either limit is exceeded
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 200;
+
+// A lookup slower than this counts as a miss, so a stuck database never holds up a request
+const CACHE_READ_TIMEOUT_MS = 2000;
+
+export type CacheKind = "analysis" | "preview" | "refinement";
+
+interface CacheEntry {
+  key: string;
+  kind: CacheKind;
+  value: unknown;
+  // Approximate serialized size, used for the byte limit
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/**
+ * SHA-256 of everything that determines a response (image, mode, prompt, model id).
+ * Returns null where SubtleCrypto is unavailable (insecure origins), which disables caching.
+ */
+export const hashCacheKey = async (parts: (string | undefined)[]): Promise<string | null> => {
+  if (typeof crypto === "undefined" || !crypto.subtle) return null;
+  // Unit separator keeps ["ab", "c"] and ["a", "bc"] apart
+  const data = new TextEncoder().encode(parts.map((part) => part ?? "").join("\u001f"));
+  return toHex(await crypto.subtle.digest("SHA-256", data));
+};
+
+// Cache problems (quota, private mode, blocked upgrade) must never break a request, so every miss path returns undefined
+const readCache = async <T>(key: string): Promise<T | undefined> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<undefined>((resolve) => {
+    timer = setTimeout(() => {
+      console.warn("Response cache read timed out");
+      resolve(undefined);
+    }, CACHE_READ_TIMEOUT_MS);
+  });
+  const read = withStore(STORES.RESPONSE_CACHE, "readwrite", async (store) => {
+    const entry = await requestToPromise<CacheEntry | undefined>(store.get(key));
+    if (!entry) return undefined;
+    store.put({ ...entry, lastUsedAt: Date.now() });
+    return entry.value as T;
+  });
+  try {
+    return await Promise.race([read, timeout]);
+  } catch (err) {
+    console.warn("Response cache read failed", err);
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const evict = (store: IDBObjectStore): Promise<void> =>
+  new Promise((resolve, reject) => {
+    // Newest first, so everything past the limits is the least recently used
+    const request = store.index("lastUsedAt").openCursor(null, "prev");
+    let totalBytes = 0;
+    let count = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      const entry = cursor.value as CacheEntry;
+      totalBytes += entry.size;
+      count++;
+      if (totalBytes > MAX_CACHE_BYTES || count > MAX_CACHE_ENTRIES) cursor.delete();
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const writeCache = async (key: string, kind: CacheKind, value: unknown) => {
+  const size = JSON.stringify(value).length;
+  if (size > MAX_CACHE_BYTES) return;
+  const now = Date.now();
+  try {
+    await withStore(STORES.RESPONSE_CACHE, "readwrite", async (store) => {
+      await requestToPromise(store.put({ key, kind, value, size, createdAt: now, lastUsedAt: now } satisfies CacheEntry));
+      await evict(store);
+    });
+  } catch (err) {
+    console.warn("Response cache write failed", err);
+  }
+};
+
+export const clearResponseCache = () => withStore(STORES.RESPONSE_CACHE, "readwrite", (store) => store.clear());
+
+/**
+ * Returns the cached value for `parts` or runs `produce` and stores its result.
+ * `regenerate` skips the lookup but still refreshes the stored value.
+ */
+export const cached = async <T>(
+  kind: CacheKind,
+  parts: (string | undefined)[],
+  produce: () => Promise<T>,
+  regenerate = false,
+): Promise<T> => {
+  const key = await hashCacheKey([kind, ...parts]);
+  if (!key) return produce();
+  if (!regenerate) {
+    const hit = await readCache<T>(key);
+    if (hit !== undefined) return hit;
+  }
+  const value = await produce();
+  await writeCache(key, kind, value);
+  return value;
+};
@@ -0,0 +1,108 @@
+import { SavedLook, SavedLookImages, StyleCombination } from "../types";
+import { STORES, withStore, createId } from "./db";
+
+// Key predates the Sharp.AI rename; kept so existing users don't lose their saved looks
+const SAVED_LOOKS_KEY = 'styleScout_savedLooks';
+const CHANGE_EVENT = 'savedLooksChange';
+
+const isSameCombination = (a: StyleCombination, b: StyleCombination) =>
+  a.name === b.name && a.description === b.description;
+
+// Early versions stored bare StyleCombination objects; wrap them in SavedLook entries
+const upgradeEntry = (entry: SavedLook | StyleCombination): SavedLook => {
+  if ('combination' in entry && 'id' in entry) return entry;
+  return { id: createId(), combination: entry as StyleCombination, source: 'recommended', savedAt: Date.now() };
+};
+
+const writeSavedLooks = (looks: SavedLook[]) => {
+  localStorage.setItem(SAVED_LOOKS_KEY, JSON.stringify(looks));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+export const getSavedLooks = (): SavedLook[] => {
+  try {
+    const savedData = localStorage.getItem(SAVED_LOOKS_KEY);
+    if (!savedData) return [];
+    const raw: (SavedLook | StyleCombination)[] = JSON.parse(savedData);
+    const looks = raw.map(upgradeEntry);
+    if (looks.some((look, idx) => look !== raw[idx])) {
+      localStorage.setItem(SAVED_LOOKS_KEY, JSON.stringify(looks));
+    }
+    return looks;
+  } catch (err) {
+    console.error('Error reading localStorage', err);
+    return [];
+  }
+};
+
+export const findSavedLook = (combination: StyleCombination): SavedLook | undefined =>
+  getSavedLooks().find((look) => isSameCombination(look.combination, combination));
+
+export const getSavedLookImages = async (id: string): Promise<SavedLookImages | undefined> => {
+  try {
+    return await withStore(STORES.SAVED_LOOK_IMAGES, 'readonly', (store) => store.get(id) as IDBRequest<SavedLookImages | undefined>);
+  } catch (err) {
+    console.error('Error reading saved look images', err);
+    return undefined;
+  }
+};
+
+// Merges into what is already stored, so passing only generatedImage keeps the source photo
+export const setSavedLookImages = async (id: string, images: Omit<SavedLookImages, 'id'>) => {
+  const existing = await getSavedLookImages(id);
+  await withStore(STORES.SAVED_LOOK_IMAGES, 'readwrite', (store) => store.put({ ...existing, ...images, id }));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+interface SaveLookOptions {
+  source?: SavedLook['source'];
+  faceShape?: string;
+  generatedImage?: string | null;
+  sourceImage?: string;
+}
+
+export const saveLook = async (combination: StyleCombination, options: SaveLookOptions = {}): Promise<SavedLook> => {
+  const existing = findSavedLook(combination);
+  const look: SavedLook = existing ?? {
+    id: createId(),
+    combination,
+    source: options.source ?? 'recommended',
+    faceShape: options.faceShape,
+    savedAt: Date.now(),
+  };
+  if (!existing) {
+    writeSavedLooks([...getSavedLooks(), look]);
+  }
+  // The index is saved even if image storage is unavailable
+  try {
+    await setSavedLookImages(look.id, {
+      ...(options.generatedImage ? { generatedImage: options.generatedImage } : {}),
+      ...(options.sourceImage ? { sourceImage: options.sourceImage } : {}),
+    });
+  } catch (err) {
+    console.error('Error saving look images', err);
+  }
+  return look;
+};
+
+export const removeSavedLook = async (id: string) => {
+  writeSavedLooks(getSavedLooks().filter((look) => look.id !== id));
+  try {
+    await withStore(STORES.SAVED_LOOK_IMAGES, 'readwrite', (store) => store.delete(id));
+  } catch (err) {
+    console.error('Error removing saved look images', err);
+  }
+};
+
+// Notifies on any change to the index or images, including from other components
+export const subscribeToSavedLooks = (listener: () => void) => {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === SAVED_LOOKS_KEY) listener();
+  };
+  window.addEventListener(CHANGE_EVENT, listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
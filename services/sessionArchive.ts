@@ -0,0 +1,254 @@
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from "fflate";
+import { AnalysisMode, AnalysisResult, AnalysisSession, GeneratedPreview, ProfileAngle, SavedLook } from "../types";
+import { createId } from "./db";
+import { normalizeCombination, validateAnalysisResult } from "./analysisValidator";
+import { createThumbnail, parseDataUrl } from "./imagePreprocessor";
+import { addSession } from "./historyStore";
+import { findSavedLook, getSavedLookImages, getSavedLooks, saveLook } from "./savedLooksStore";
+
+// A zip with manifest.json plus the images as plain files, so QA can also unpack it by hand
+const ARCHIVE_FORMAT = "sharp-ai-session";
+const ARCHIVE_VERSION = 1;
+const MANIFEST_NAME = "manifest.json";
+export const SESSION_ARCHIVE_EXTENSION = ".sharpai.zip";
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+export class SessionArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionArchiveError";
+  }
+}
+
+// Paths below point at files inside the archive
+interface ArchivedPreview {
+  key?: string;
+  label: string;
+  createdAt: number;
+  image: string;
+}
+
+interface ArchivedSavedLook {
+  combination: SavedLook["combination"];
+  source: SavedLook["source"];
+  faceShape?: string;
+  savedAt: number;
+  generatedImage?: string;
+}
+
+interface SessionManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  session: {
+    name: string;
+    createdAt: number;
+    mode: AnalysisMode;
+    result: unknown;
+    image: string;
+    profileImages?: Partial<Record<ProfileAngle, string>>;
+    previews: ArchivedPreview[];
+  };
+  // Looks from this session that were saved (hearted) when it was exported
+  savedLooks: ArchivedSavedLook[];
+}
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string) => Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "session";
+
+// Collects images into the zip and hands back their paths
+const createImageWriter = (files: Zippable) => {
+  let count = 0;
+  return (dataUrl: string, name: string) => {
+    const { mimeType, data } = parseDataUrl(dataUrl);
+    const path = `images/${String(++count).padStart(2, "0")}-${slugify(name)}.${IMAGE_EXTENSIONS[mimeType] ?? "jpg"}`;
+    // Already compressed; deflating again only costs time
+    files[path] = [base64ToBytes(data), { level: 0 }];
+    return path;
+  };
+};
+
+const savedLooksForSession = async (session: AnalysisSession): Promise<{ look: SavedLook; generatedImage?: string }[]> => {
+  const matches = await Promise.all(
+    getSavedLooks().map(async (look) => {
+      const images = await getSavedLookImages(look.id);
+      return images?.sourceImage === session.image ? { look, generatedImage: images.generatedImage } : null;
+    }),
+  );
+  return matches.filter((match): match is NonNullable<typeof match> => match !== null);
+};
+
+/**
+ * Packs a history session into a single versioned archive: the photos, the analysis, its
+ * previews and the looks saved from it. Importing it elsewhere needs no API call.
+ */
+export const exportSessionArchive = async (session: AnalysisSession): Promise<Blob> => {
+  const files: Zippable = {};
+  const writeImage = createImageWriter(files);
+
+  const profileImages: Partial<Record<ProfileAngle, string>> = {};
+  for (const [angle, image] of Object.entries(session.profileImages ?? {}) as [ProfileAngle, string | undefined][]) {
+    if (image) profileImages[angle] = writeImage(image, `profile-${angle}`);
+  }
+
+  const manifest: SessionManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    session: {
+      name: session.name,
+      createdAt: session.createdAt,
+      mode: session.mode,
+      result: session.result,
+      image: writeImage(session.image, "original"),
+      profileImages: Object.keys(profileImages).length > 0 ? profileImages : undefined,
+      previews: session.previews.map((preview) => ({
+        key: preview.key,
+        label: preview.label,
+        createdAt: preview.createdAt,
+        image: writeImage(preview.imageUrl, `preview-${preview.label}`),
+      })),
+    },
+    savedLooks: (await savedLooksForSession(session)).map(({ look, generatedImage }) => ({
+      combination: look.combination,
+      source: look.source,
+      faceShape: look.faceShape,
+      savedAt: look.savedAt,
+      generatedImage: generatedImage ? writeImage(generatedImage, `saved-${look.combination.name}`) : undefined,
+    })),
+  };
+  files[MANIFEST_NAME] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return new Blob([zipSync(files)], { type: "application/zip" });
+};
+
+export const downloadSessionArchive = async (session: AnalysisSession) => {
+  const url = URL.createObjectURL(await exportSessionArchive(session));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${slugify(session.name)}${SESSION_ARCHIVE_EXTENSION}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoked after the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const isSessionArchive = (file: File) =>
+  file.name.toLowerCase().endsWith(".zip") || file.type === "application/zip" || file.type === "application/x-zip-compressed";
+
+const readManifest = (files: Record<string, Uint8Array>): SessionManifest => {
+  const raw = files[MANIFEST_NAME];
+  if (!raw) throw new SessionArchiveError("This zip isn't a Sharp.AI session export.");
+  let manifest: SessionManifest;
+  try {
+    manifest = JSON.parse(strFromU8(raw));
+  } catch {
+    throw new SessionArchiveError("The session file is damaged (unreadable manifest).");
+  }
+  if (manifest?.format !== ARCHIVE_FORMAT) throw new SessionArchiveError("This zip isn't a Sharp.AI session export.");
+  if (typeof manifest.version !== "number" || manifest.version > ARCHIVE_VERSION) {
+    throw new SessionArchiveError("This session was exported by a newer version of Sharp.AI. Reload the page to update.");
+  }
+  if (!manifest.session || !Object.values(AnalysisMode).includes(manifest.session.mode)) {
+    throw new SessionArchiveError("The session file is damaged (unknown analysis mode).");
+  }
+  return manifest;
+};
+
+/**
+ * Restores an exported archive as a new history session (it never replaces an existing one)
+ * and re-saves its saved looks. The analysis goes through the same validation as a fresh
+ * model response, since the file may have been edited by hand.
+ */
+export const importSessionArchive = async (file: File): Promise<AnalysisSession> => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new SessionArchiveError("This file isn't a valid zip archive.");
+  }
+  const manifest = readManifest(files);
+  const { session: archived } = manifest;
+
+  const readImage = (path: string | undefined): string | undefined => {
+    const bytes = path ? files[path] : undefined;
+    if (!bytes) return undefined;
+    const extension = path!.split(".").pop()?.toLowerCase();
+    const mimeType = Object.keys(IMAGE_EXTENSIONS).find((type) => IMAGE_EXTENSIONS[type] === extension) ?? "image/jpeg";
+    return `data:${mimeType};base64,${bytesToBase64(bytes)}`;
+  };
+
+  const image = readImage(archived.image);
+  if (!image) throw new SessionArchiveError("The session file is missing its original photo.");
+
+  let result: AnalysisResult;
+  try {
+    result = validateAnalysisResult(archived.result, archived.mode);
+  } catch (err) {
+    console.error("Invalid analysis in session archive", err);
+    throw new SessionArchiveError("The analysis in this session file couldn't be read.");
+  }
+
+  const profileImages: Partial<Record<ProfileAngle, string>> = {};
+  for (const angle of Object.values(ProfileAngle)) {
+    const profile = readImage(archived.profileImages?.[angle]);
+    if (profile) profileImages[angle] = profile;
+  }
+
+  const previews: GeneratedPreview[] = (Array.isArray(archived.previews) ? archived.previews : []).flatMap((preview) => {
+    const imageUrl = readImage(preview?.image);
+    return imageUrl && typeof preview.label === "string"
+      ? [{
+          id: createId(),
+          key: typeof preview.key === "string" ? preview.key : undefined,
+          label: preview.label,
+          imageUrl,
+          createdAt: Number(preview.createdAt) || Date.now(),
+        }]
+      : [];
+  });
+
+  const now = Date.now();
+  const session = await addSession({
+    id: createId(),
+    name: typeof archived.name === "string" && archived.name.trim() ? archived.name : `${result.faceShape} (imported)`,
+    createdAt: Number(archived.createdAt) || now,
+    updatedAt: now,
+    mode: archived.mode,
+    faceShape: result.faceShape,
+    thumbnail: await createThumbnail(image),
+    image,
+    profileImages: Object.keys(profileImages).length > 0 ? profileImages : undefined,
+    result,
+    previews,
+  });
+
+  // Looks already saved on this device keep their own images
+  for (const saved of Array.isArray(manifest.savedLooks) ? manifest.savedLooks : []) {
+    const combination = normalizeCombination(saved?.combination);
+    if (!combination || findSavedLook(combination)) continue;
+    await saveLook(combination, {
+      source: saved.source === "custom" ? "custom" : "recommended",
+      faceShape: saved.faceShape,
+      generatedImage: readImage(saved.generatedImage),
+      sourceImage: image,
+    });
+  }
+
+  return session;
+};
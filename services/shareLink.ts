@@ -0,0 +1,145 @@
+import { AnalysisResult, SharedLook, StyleCombination } from "../types";
+import { normalizeCombination, normalizeCuttingSpec } from "./analysisValidator";
+import { createThumbnail } from "./imagePreprocessor";
+import { findStyleSpec } from "./cuttingGuidance";
+
+// Links look like `#look=1.<deflated, base64url JSON>`; the version sits outside the compressed
+// part so a future format can change the encoding too. Fragments never reach a server.
+const FRAGMENT_PREFIX = "#look=";
+const SHARE_LINK_VERSION = "1";
+// Preview side in pixels; keeps a link with an image around 15-20k characters
+const PREVIEW_SIZE = 224;
+// Anything bigger than this didn't come from createShareLink
+const MAX_PREVIEW_LENGTH = 100_000;
+const JPEG_DATA_URL = /^data:image\/jpeg;base64,[A-Za-z0-9+/]+=*$/;
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareLinkError";
+  }
+}
+
+// Version 1 payload; short keys because every character ends up in the URL
+interface SharePayloadV1 {
+  c: unknown;
+  s?: string;
+  a?: string;
+  t?: string[];
+  h?: unknown;
+  b?: unknown;
+  p?: string;
+}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  // Chunked so large previews don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const deflate = async (text: string) =>
+  new Uint8Array(await new Response(new Blob([text]).stream().pipeThrough(new CompressionStream("deflate-raw"))).arrayBuffer());
+
+const inflate = (bytes: Uint8Array) =>
+  new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"))).text();
+
+const optionalString = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+// Link contents come from whoever sent it, so only known fields of the right type survive
+const parsePayloadV1 = (raw: unknown): SharedLook => {
+  if (typeof raw !== "object" || raw === null) throw new ShareLinkError("This share link is damaged.");
+  const payload = raw as Record<string, unknown>;
+  const combination = normalizeCombination(payload.c);
+  if (!combination) throw new ShareLinkError("This share link doesn't contain a look.");
+
+  const look: SharedLook = { combination };
+  const faceShape = optionalString(payload.s);
+  if (faceShape) look.faceShape = faceShape;
+  const faceAnalysis = optionalString(payload.a);
+  if (faceAnalysis) look.faceAnalysis = faceAnalysis;
+  if (Array.isArray(payload.t)) {
+    const tips = payload.t.map(optionalString).filter((tip): tip is string => !!tip);
+    if (tips.length > 0) look.groomingTips = tips;
+  }
+  const hairSpec = normalizeCuttingSpec(payload.h);
+  if (hairSpec) look.hairSpec = hairSpec;
+  const beardSpec = normalizeCuttingSpec(payload.b);
+  if (beardSpec) look.beardSpec = beardSpec;
+  if (typeof payload.p === "string" && payload.p.length <= MAX_PREVIEW_LENGTH && JPEG_DATA_URL.test(payload.p)) {
+    look.previewImage = payload.p;
+  }
+  return look;
+};
+
+// Same details the barber sheet shows, taken from the analysis the look came from
+export const buildSharedLook = (
+  combination: StyleCombination,
+  analysis?: AnalysisResult,
+  previewImage?: string | null,
+): SharedLook => ({
+  combination,
+  faceShape: analysis?.faceShape,
+  faceAnalysis: analysis?.faceAnalysis,
+  groomingTips: analysis?.groomingTips,
+  hairSpec: findStyleSpec(analysis?.hairstyles, combination.hairstyle),
+  beardSpec: findStyleSpec(analysis?.facialHair, combination.facialHair),
+  previewImage: previewImage ?? undefined,
+});
+
+/**
+ * Encodes a look into a self-contained link to this app. The preview, when included, is
+ * shrunk to a small JPEG; without it the link carries text only.
+ */
+export const createShareLink = async (look: SharedLook, { includePreview = false } = {}): Promise<string> => {
+  const payload: SharePayloadV1 = {
+    c: look.combination,
+    s: look.faceShape,
+    a: look.faceAnalysis,
+    t: look.groomingTips,
+    h: look.hairSpec,
+    b: look.beardSpec,
+  };
+  if (includePreview && look.previewImage) payload.p = await createThumbnail(look.previewImage, PREVIEW_SIZE);
+
+  const encoded = toBase64Url(await deflate(JSON.stringify(payload)));
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}${FRAGMENT_PREFIX}${SHARE_LINK_VERSION}.${encoded}`;
+};
+
+// Encoded look in the current URL, if it is a share link
+export const readShareFragment = (hash = window.location.hash): string | null =>
+  hash.startsWith(FRAGMENT_PREFIX) ? hash.slice(FRAGMENT_PREFIX.length) : null;
+
+export const clearShareFragment = () => {
+  if (!readShareFragment()) return;
+  history.replaceState(null, "", window.location.pathname + window.location.search);
+};
+
+export const decodeShareLink = async (fragment: string): Promise<SharedLook> => {
+  const separator = fragment.indexOf(".");
+  const version = separator > 0 ? fragment.slice(0, separator) : "";
+  if (version !== SHARE_LINK_VERSION) {
+    throw new ShareLinkError(
+      /^\d+$/.test(version) && Number(version) > Number(SHARE_LINK_VERSION)
+        ? "This link was made with a newer version of Sharp.AI. Reload the page to update."
+        : "This share link is damaged.",
+    );
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await inflate(fromBase64Url(fragment.slice(separator + 1))));
+  } catch {
+    // Usually a link cut short by a chat app
+    throw new ShareLinkError("This share link is incomplete or damaged. Ask for the full link.");
+  }
+  return parsePayloadV1(raw);
+};
@@ -0,0 +1,244 @@
+import { CatalogStyle, HairTexture, StyleCategory, StyleDifficulty, StyleLength } from "../types";
+
+type CatalogEntryInput = Omit<CatalogStyle, "category" | "image" | "aliases"> & { image: string; aliases?: string[] };
+
+const entry = (category: StyleCategory) => ({ image, aliases = [], ...rest }: CatalogEntryInput): CatalogStyle => ({
+  ...rest,
+  aliases,
+  category,
+  image: `/styles/${image}`,
+});
+
+const hair = entry("hair");
+const beard = entry("beard");
+
+const ALL_TEXTURES: HairTexture[] = ["straight", "wavy", "curly", "coily"];
+
+// Reference photos live in public/styles
+export const HAIRSTYLE_CATALOG: CatalogStyle[] = [
+  hair({
+    id: "afro", name: "Afro", image: "afro.jpg",
+    summary: "Natural coily hair grown out evenly and shaped into a rounded silhouette.",
+    aliases: ["Natural Afro", "Tapered Afro"],
+    tags: { length: "Medium", maintenance: "Moderate", faceShapes: ["Oval", "Oblong", "Diamond"], textures: ["curly", "coily"] },
+  }),
+  hair({
+    id: "braids", name: "Braids / Cornrows", image: "braidscornrows.jpg",
+    summary: "Hair braided close to the scalp in rows or as loose braids; lasts weeks between redos.",
+    aliases: ["Braids", "Cornrows", "Plaits", "Box Braids"],
+    tags: { length: "Medium", maintenance: "Moderate", faceShapes: ["Oval", "Round", "Heart"], textures: ["curly", "coily"] },
+  }),
+  hair({
+    id: "buzz-cut", name: "Buzz Cut", image: "buzzcut.jpg",
+    summary: "Clipped to one short length all over. Shows off the head shape and needs no styling.",
+    aliases: ["Buzz", "Military Cut", "High and Tight", "Burr Cut", "Induction Cut"],
+    tags: { length: "Bald", maintenance: "Easy", faceShapes: ["Oval", "Square", "Diamond"], textures: ALL_TEXTURES },
+  }),
+  hair({
+    id: "caesar-cut", name: "Caesar Cut", image: "caesarcut.jpg",
+    summary: "Short, even length with a straight, horizontal fringe brushed forward.",
+    aliases: ["Caesar"],
+    tags: { length: "Short", maintenance: "Easy", faceShapes: ["Oval", "Oblong", "Heart", "Diamond"], textures: ["straight", "wavy", "coily"] },
+  }),
+  hair({
+    id: "crew-cut", name: "Crew Cut", image: "crewcut.jpg",
+    summary: "Short tapered sides with a little more length on top, graduated from front to crown.",
+    aliases: ["Crew", "Ivy League"],
+    tags: { length: "Short", maintenance: "Easy", faceShapes: ["Oval", "Square", "Round", "Oblong"], textures: ALL_TEXTURES },
+  }),
+  hair({
+    id: "curly", name: "Curly Hair", image: "curly.jpg",
+    summary: "Natural curls left longer on top with tidier sides, shaped to control volume.",
+    aliases: ["Curly", "Curly Top", "Coils", "Natural Curls"],
+    tags: { length: "Medium", maintenance: "Moderate", faceShapes: ["Oval", "Square", "Oblong"], textures: ["wavy", "curly", "coily"] },
+  }),
+  hair({
+    id: "dreadlocks", name: "Dreadlocks", image: "dreadlocks.jpg",
+    summary: "Hair matted into rope-like locs over months; a long-term commitment with periodic retwists.",
+    aliases: ["Dreads", "Locs", "Short Dreads"],
+    tags: { length: "Long", maintenance: "Moderate", faceShapes: ["Oval", "Square", "Heart"], textures: ["curly", "coily"] },
+  }),
+  hair({
+    id: "fade", name: "Fade", image: "fade.jpg",
+    summary: "Sides and back blend from very short (or skin) up into longer hair on top. Low, mid or high.",
+    aliases: ["Skin Fade", "Low Fade", "Mid Fade", "High Fade", "Taper", "Taper Fade", "Bald Fade", "Drop Fade"],
+    tags: { length: "Short", maintenance: "Moderate", faceShapes: ["Round", "Oval", "Square", "Triangle"], textures: ALL_TEXTURES },
+  }),
+  hair({
+    id: "fringe", name: "Fringe / Bangs", image: "fringeforward.jpg",
+    summary: "Top hair worn forward over the forehead, which shortens a long face or tall forehead.",
+    aliases: ["Fringe", "Bangs", "Forward Fringe", "Fringe Forward"],
+    tags: { length: "Medium", maintenance: "Easy", faceShapes: ["Oblong", "Heart", "Diamond"], textures: ["straight", "wavy"] },
+  }),
+  hair({
+    id: "long-wavy", name: "Long Wavy Flow", image: "longhairwavy.jpg",
+    summary: "Shoulder-length hair pushed back and left to fall in loose waves.",
+    aliases: ["Long Hair", "Wavy Hair", "Flow", "Surfer Hair", "Shoulder Length"],
+    tags: { length: "Long", maintenance: "Moderate", faceShapes: ["Oval", "Square", "Diamond"], textures: ["straight", "wavy"] },
+  }),
+  hair({
+    id: "man-bun", name: "Man Bun", image: "manbun.jpg",
+    summary: "Long hair gathered into a bun at the crown or back of the head.",
+    aliases: ["Bun", "Top Knot"],
+    tags: { length: "Long", maintenance: "Easy", faceShapes: ["Oval", "Square", "Diamond"], textures: ["straight", "wavy", "curly"] },
+  }),
+  hair({
+    id: "pompadour", name: "Pompadour", image: "pompadour.jpg",
+    summary: "Voluminous top swept up and back from the forehead, with short sides. Needs product and a blow-dry.",
+    aliases: ["Modern Pompadour", "Classic Pompadour"],
+    tags: { length: "Medium", maintenance: "Advanced", faceShapes: ["Round", "Square", "Oval"], textures: ["straight", "wavy"] },
+  }),
+  hair({
+    id: "quiff", name: "Quiff", image: "quiff.jpg",
+    summary: "Front of the top lifted up and slightly back for height, sides kept short.",
+    aliases: ["Brush Up", "Modern Quiff", "Textured Quiff"],
+    tags: { length: "Medium", maintenance: "Moderate", faceShapes: ["Round", "Square", "Oval", "Heart"], textures: ["straight", "wavy"] },
+  }),
+  hair({
+    id: "side-part", name: "Side Part", image: "sidepart.jpg",
+    summary: "Classic cut combed to one side from a clear part line. Office-friendly.",
+    aliases: ["Comb Over", "Classic Side Part", "Hard Part", "Executive Contour"],
+    tags: { length: "Short", maintenance: "Moderate", faceShapes: ["Oval", "Square", "Round", "Diamond"], textures: ["straight", "wavy"] },
+  }),
+  hair({
+    id: "slick-back", name: "Slick Back", image: "slickback.jpg",
+    summary: "All of the top combed straight back with a shine or matte product.",
+    aliases: ["Slicked Back", "Slick Back Undercut"],
+    tags: { length: "Medium", maintenance: "Moderate", faceShapes: ["Oval", "Square", "Diamond"], textures: ["straight", "wavy"] },
+  }),
+  hair({
+    id: "spiky", name: "Spiky / Faux Hawk", image: "spiky.jpg",
+    summary: "Short top hair pushed up into spikes or a ridge down the middle, without shaving the sides.",
+    aliases: ["Spiky Hair", "Spikes", "Faux Hawk", "Fohawk"],
+    tags: { length: "Short", maintenance: "Moderate", faceShapes: ["Round", "Oval", "Square"], textures: ["straight", "wavy"] },
+  }),
+  hair({
+    id: "textured-crop", name: "Textured Crop", image: "texturedcrop.jpg",
+    summary: "Short choppy top worn forward with a blunt or messy fringe and faded sides.",
+    aliases: ["Crop", "French Crop", "Textured French Crop", "Crop Top"],
+    tags: { length: "Short", maintenance: "Easy", faceShapes: ["Oval", "Oblong", "Square", "Triangle"], textures: ["straight", "wavy", "curly"] },
+  }),
+  hair({
+    id: "undercut", name: "Undercut", image: "undercut.jpg",
+    summary: "Sides and back buzzed short with a sharp disconnect to a much longer top.",
+    aliases: ["Disconnected Undercut"],
+    tags: { length: "Medium", maintenance: "Moderate", faceShapes: ["Oval", "Oblong", "Heart", "Diamond"], textures: ["straight", "wavy"] },
+  }),
+];
+
+export const FACIAL_HAIR_CATALOG: CatalogStyle[] = [
+  beard({
+    id: "anchor", name: "Anchor Beard", image: "anchor.jpg",
+    summary: "A pointed chin beard that runs along the jaw, paired with a separate mustache. No sideburns.",
+    aliases: ["Anchor"],
+    tags: { length: "Short", maintenance: "Advanced", faceShapes: ["Round", "Oblong", "Heart"] },
+  }),
+  beard({
+    id: "balbo", name: "Balbo", image: "balbo.jpg",
+    summary: "A floating mustache over a short chin beard with a soul patch. Cheeks and sideburns are shaved.",
+    aliases: ["Balbo Beard"],
+    tags: { length: "Short", maintenance: "Advanced", faceShapes: ["Round", "Oval", "Heart"] },
+  }),
+  beard({
+    id: "chin-strap", name: "Chin Strap", image: "chinstrap.jpg",
+    summary: "A thin line of beard following the jawline from ear to ear. Everything else is clean shaven.",
+    aliases: ["Chinstrap", "Chin Strap Beard"],
+    tags: { length: "Short", maintenance: "Advanced", faceShapes: ["Round", "Oval"] },
+  }),
+  beard({
+    id: "clean-shaven", name: "Clean Shaven", image: "cleanshaven.jpg",
+    summary: "No facial hair. Shows the natural jawline but means shaving every day or two.",
+    aliases: ["Clean", "Shaven", "No Beard", "None"],
+    tags: { length: "Bald", maintenance: "Moderate", faceShapes: ["Oval", "Square", "Diamond"] },
+  }),
+  beard({
+    id: "full-beard", name: "Full Beard", image: "fullbeard.jpg",
+    summary: "Cheeks, jaw, chin and mustache grown out together and kept evenly shaped.",
+    aliases: ["Lumberjack Beard", "Long Beard"],
+    tags: { length: "Long", maintenance: "Moderate", faceShapes: ["Round", "Oblong", "Diamond", "Heart"] },
+  }),
+  beard({
+    id: "goatee", name: "Goatee", image: "goateefull.jpg",
+    summary: "Mustache joined to a chin beard in a circle around the mouth. The cheeks are shaved.",
+    aliases: ["Circle Beard", "Full Goatee"],
+    tags: { length: "Short", maintenance: "Moderate", faceShapes: ["Round", "Square", "Heart"] },
+  }),
+  beard({
+    id: "heavy-stubble", name: "Heavy Stubble", image: "stubbleheavy.jpg",
+    summary: "A few days' growth (3-5mm) kept even with a trimmer. Defines the jaw without committing to a beard.",
+    aliases: ["Stubble", "Designer Stubble", "Light Stubble", "Five O'Clock Shadow", "Scruff"],
+    tags: { length: "Short", maintenance: "Easy", faceShapes: ["Oval", "Square", "Oblong", "Triangle"] },
+  }),
+  beard({
+    id: "mutton-chops", name: "Mutton Chops", image: "muttonchopsfriendly.jpg",
+    summary: "Sideburns grown wide down the cheeks, joined by a mustache with a shaved chin.",
+    aliases: ["Mutton Chop", "Friendly Mutton Chops", "Chops"],
+    tags: { length: "Medium", maintenance: "Advanced", faceShapes: ["Oblong", "Heart"] },
+  }),
+  beard({
+    id: "chevron-mustache", name: "Chevron Mustache", image: "mustachechevron.jpg",
+    summary: "A thick mustache covering the top lip, trimmed in an inverted V. Clean shaven otherwise.",
+    aliases: ["Mustache", "Moustache", "Chevron", "Chevron Moustache"],
+    tags: { length: "Short", maintenance: "Easy", faceShapes: ["Oval", "Oblong", "Square"] },
+  }),
+  beard({
+    id: "short-boxed", name: "Short Boxed Beard", image: "shortbeardboxed.jpg",
+    summary: "A short full beard with crisp cheek lines and a neat neckline. Reads polished at work.",
+    aliases: ["Boxed Beard", "Short Beard", "Corporate Beard", "Verdi"],
+    tags: { length: "Short", maintenance: "Moderate", faceShapes: ["Round", "Oval", "Oblong", "Triangle"] },
+  }),
+  beard({
+    id: "sideburns", name: "Prominent Sideburns", image: "sideburnsprominent.jpg",
+    summary: "Sideburns grown longer and fuller down toward the jaw, with the rest of the face shaved.",
+    aliases: ["Sideburns", "Long Sideburns"],
+    tags: { length: "Short", maintenance: "Easy", faceShapes: ["Oval", "Heart", "Triangle"] },
+  }),
+  beard({
+    id: "van-dyke", name: "Van Dyke", image: "vandyke.jpg",
+    summary: "A pointed goatee with a mustache that doesn't connect to it. Shaved cheeks.",
+    aliases: ["Van Dyke Beard", "Vandyke"],
+    tags: { length: "Short", maintenance: "Advanced", faceShapes: ["Round", "Square", "Oval"] },
+  }),
+];
+
+export const STYLE_CATALOG: CatalogStyle[] = [...HAIRSTYLE_CATALOG, ...FACIAL_HAIR_CATALOG];
+
+export const getCatalog = (category: StyleCategory) => (category === "hair" ? HAIRSTYLE_CATALOG : FACIAL_HAIR_CATALOG);
+
+export const getCatalogNames = (category: StyleCategory) => getCatalog(category).map((style) => style.name);
+
+const normalizeStyleName = (name: string) =>
+  name.toLowerCase().replace(/['’]/g, "").replace(/[^a-z0-9]+/g, " ").trim();
+
+const STYLE_INDEX = new Map<string, CatalogStyle>();
+for (const style of STYLE_CATALOG) {
+  for (const key of [style.name, ...style.aliases]) {
+    STYLE_INDEX.set(`${style.category}:${normalizeStyleName(key)}`, style);
+  }
+}
+
+// Whole-name lookup against names and aliases; unknown styles return undefined instead of a near miss
+export const findCatalogStyle = (name: string, category: StyleCategory): CatalogStyle | undefined =>
+  name ? STYLE_INDEX.get(`${category}:${normalizeStyleName(name)}`) : undefined;
+
+export interface CatalogFilters {
+  query: string;
+  length?: StyleLength;
+  maintenance?: StyleDifficulty;
+  texture?: HairTexture;
+  // Only styles listed as suiting this face shape
+  faceShape?: string;
+}
+
+export const EMPTY_CATALOG_FILTERS: CatalogFilters = { query: "" };
+
+export const filterCatalog = (styles: CatalogStyle[], filters: CatalogFilters): CatalogStyle[] => {
+  const query = filters.query.trim().toLowerCase();
+  return styles.filter((style) =>
+    (!query || [style.name, style.summary, ...style.aliases].some((text) => text.toLowerCase().includes(query))) &&
+    (!filters.length || style.tags.length === filters.length) &&
+    (!filters.maintenance || style.tags.maintenance === filters.maintenance) &&
+    (!filters.texture || !style.tags.textures || style.tags.textures.includes(filters.texture)) &&
+    (!filters.faceShape || style.tags.faceShapes.includes(filters.faceShape)),
+  );
+};
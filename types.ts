@@ -1,7 +1,62 @@
+export type StyleDifficulty = 'Easy' | 'Moderate' | 'Advanced';
+
+// Lengths per beard zone, e.g. "6mm (#2 guard)"
+export interface BeardZoneLengths {
+  cheeks?: string;
+  jawline?: string;
+  chin?: string;
+  mustache?: string;
+}
+
+// Barber-ready measurements; hair specs fill the cut fields, beard specs fill beardLength
+export interface CuttingSpec {
+  topLength?: string;
+  sideLength?: string;
+  backLength?: string;
+  clipperGuard?: string;
+  fadeType?: string;
+  fadeHeight?: string;
+  neckline?: string;
+  beardLength?: BeardZoneLengths;
+  maintenanceInterval?: string;
+  difficulty?: StyleDifficulty;
+}
+
+export type StyleCategory = 'hair' | 'beard';
+
+export type StyleLength = 'Bald' | 'Short' | 'Medium' | 'Long';
+
+// A style the app knows about and ships a reference photo for (see services/styleCatalog)
+export interface CatalogStyle {
+  id: string;
+  name: string;
+  // Other names the model or users call it; matched whole, never as substrings
+  aliases: string[];
+  category: StyleCategory;
+  image: string;
+  // Plain-language explanation for people who don't know the name
+  summary: string;
+  tags: {
+    length: StyleLength;
+    maintenance: StyleDifficulty;
+    faceShapes: string[];
+    // Hair textures it works with; omitted when texture doesn't matter (beards)
+    textures?: HairTexture[];
+  };
+}
+
 export interface StyleRecommendation {
   name: string;
   description: string;
   reasoning: string;
+  spec?: CuttingSpec;
+  // How the user's stated preferences were respected; only set when preferences were given
+  constraintFit?: string;
+}
+
+// Hair color suggestion with an approximate swatch of the shade
+export interface HairColorRecommendation extends StyleRecommendation {
+  swatch?: string;
 }
 
 export interface StyleCombination {
@@ -10,6 +65,17 @@ export interface StyleCombination {
   hairstyle: string;
   facialHair: string;
   reasoning: string;
+  constraintFit?: string;
+}
+
+// What the side views revealed that a front photo can't show
+export interface AngleObservation {
+  angle: ProfileAngle;
+  headShape: string;
+  jawProjection: string;
+  crown: string;
+  neckline: string;
+  beardGrowth: string;
 }
 
 export interface AnalysisResult {
@@ -19,24 +85,248 @@ export interface AnalysisResult {
   facialHair: StyleRecommendation[];
   combinations: StyleCombination[];
   groomingTips: string[];
+  // Only present when profile photos were sent along with the front photo
+  angleObservations?: AngleObservation[];
+  // Sections filled by the hair color, eyebrow and eyewear modes
+  skinUndertone?: string;
+  hairColors?: HairColorRecommendation[];
+  eyebrows?: StyleRecommendation[];
+  eyewear?: StyleRecommendation[];
 }
 
 export enum AppState {
   IDLE = 'IDLE',
   UPLOADING = 'UPLOADING',
   ANALYZING = 'ANALYZING',
+  // Analysis still streaming in; the fields received so far are on screen
+  PARTIAL_RESULTS = 'PARTIAL_RESULTS',
   RESULTS = 'RESULTS',
-  ERROR = 'ERROR'
+  ERROR = 'ERROR',
+  HISTORY = 'HISTORY',
+  SAVED_LOOKS = 'SAVED_LOOKS',
+  SHARED_LOOK = 'SHARED_LOOK'
 }
 
 export enum AnalysisMode {
   COMPLETE = 'COMPLETE',
   HAIRSTYLE_ONLY = 'HAIRSTYLE_ONLY',
-  FACIAL_HAIR_ONLY = 'FACIAL_HAIR_ONLY'
+  FACIAL_HAIR_ONLY = 'FACIAL_HAIR_ONLY',
+  HAIR_COLOR = 'HAIR_COLOR',
+  EYEBROWS = 'EYEBROWS',
+  EYEWEAR = 'EYEWEAR'
+}
+
+export enum StyleAIErrorKind {
+  RATE_LIMIT = 'RATE_LIMIT',
+  SAFETY_BLOCK = 'SAFETY_BLOCK',
+  NO_FACE = 'NO_FACE',
+  NETWORK = 'NETWORK',
+  MALFORMED_RESPONSE = 'MALFORMED_RESPONSE',
+  NO_IMAGE = 'NO_IMAGE',
+  CANCELLED = 'CANCELLED',
+  UNKNOWN = 'UNKNOWN'
 }
 
 export interface UploadedImage {
   file: File;
   previewUrl: string;
   base64: string;
-}
\ No newline at end of file
+  // On-device face scan of this photo; missing for restored sessions or when the model isn't available
+  face?: FaceScan;
+}
+
+// Point in normalized image coordinates (0-1, origin top left)
+export interface FacePoint {
+  x: number;
+  y: number;
+}
+
+// One measured distance across the face, in pixels of the scanned photo
+export interface FaceMeasurement {
+  id: 'forehead' | 'cheekbones' | 'jaw' | 'length';
+  label: string;
+  from: FacePoint;
+  to: FacePoint;
+  length: number;
+}
+
+// Result of services/faceDetection for a photo with exactly one usable face
+export interface FaceScan {
+  imageWidth: number;
+  imageHeight: number;
+  box: ImageRegion;
+  // Ordered face oval, for drawing the outline
+  outline: FacePoint[];
+  // Eyes, nose, mouth and chin
+  keyPoints: FacePoint[];
+  measurements: FaceMeasurement[];
+}
+
+export enum ProfileAngle {
+  LEFT_PROFILE = 'LEFT_PROFILE',
+  RIGHT_PROFILE = 'RIGHT_PROFILE'
+}
+
+export type ProfileImages = Partial<Record<ProfileAngle, UploadedImage>>;
+
+export type HairTexture = 'straight' | 'wavy' | 'curly' | 'coily';
+export type HairDensity = 'full' | 'thinning' | 'receding' | 'bald';
+export type Lifestyle = 'corporate' | 'creative' | 'active' | 'casual';
+export type StylingTime = 'none' | 'quick' | 'moderate' | 'enjoys';
+export type BarberVisits = 'frequent' | 'monthly' | 'rare';
+export type BeardGrowth = 'full' | 'patchy' | 'light' | 'none';
+
+// Everything is optional; unanswered questions are simply left out of the prompt
+export interface UserPreferences {
+  hairTexture?: HairTexture;
+  hairDensity?: HairDensity;
+  lifestyle?: Lifestyle;
+  stylingTime?: StylingTime;
+  barberVisits?: BarberVisits;
+  beardGrowth?: BeardGrowth;
+  excludedStyles: string[];
+}
+
+export interface AnalyzeOptions {
+  // Optional side views (base64 data URLs) analyzed together with the front photo
+  profileImages?: Partial<Record<ProfileAngle, string>>;
+  preferences?: UserPreferences;
+  // Skip the response cache and ask the model again
+  regenerate?: boolean;
+  // Called as a streamed response arrives, each time with everything received so far.
+  // Not called when the result comes from the cache.
+  onPartialResult?: (partial: Partial<AnalysisResult>) => void;
+}
+
+export interface GeneratedPreview {
+  id: string;
+  // Look within the session (e.g. `combination-0`), stable across same-named looks; missing in older sessions
+  key?: string;
+  // Combination name or custom look label the preview was generated for
+  label: string;
+  imageUrl: string;
+  createdAt: number;
+}
+
+export interface AnalysisSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  mode: AnalysisMode;
+  faceShape: string;
+  // Small JPEG data URL for list views; `image` holds the full-size photo
+  thumbnail: string;
+  image: string;
+  profileImages?: Partial<Record<ProfileAngle, string>>;
+  result: AnalysisResult;
+  previews: GeneratedPreview[];
+}
+
+// Entry of the localStorage saved-looks index; images live in IndexedDB under the same id
+export interface SavedLook {
+  id: string;
+  combination: StyleCombination;
+  source: 'recommended' | 'custom';
+  faceShape?: string;
+  savedAt: number;
+}
+
+export interface SavedLookImages {
+  id: string;
+  generatedImage?: string;
+  sourceImage?: string;
+}
+
+export type StyleAIProviderId = 'gemini' | 'mock';
+
+// Contract every AI backend (live Gemini, offline mock, ...) implements
+export interface StyleAIProvider {
+  id: StyleAIProviderId;
+  // Model ids are part of the response cache key, so switching models never serves stale results
+  models: { analysis: string; preview: string };
+  analyzeFace: (base64Image: string, mode: AnalysisMode, options?: AnalyzeOptions) => Promise<AnalysisResult>;
+  generateLookPreview: (originalBase64: string, combinationDescription: string, options?: PreviewOptions) => Promise<string>;
+  // Applies a follow-up edit to an already generated preview
+  refineLookPreview: (currentImage: string, instruction: string, context: RefinementContext, options?: PreviewOptions) => Promise<string>;
+}
+
+export interface PreviewOptions {
+  signal?: AbortSignal;
+  regenerate?: boolean;
+  // Sampling seed; the same seed and prompt give a repeatable variation and share a cache entry
+  seed?: number;
+}
+
+export type GenerationStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+// Snapshot of one preview request in the generation queue (services/generationQueue)
+export interface GenerationJob {
+  id: string;
+  key: string;
+  status: GenerationStatus;
+  // 1-based place in line while queued
+  position?: number;
+  imageUrl?: string;
+  // Set once a finished preview has been compared with the uploaded photo
+  identity?: IdentityCheck | null;
+  error?: unknown;
+}
+
+// Rectangle in normalized image coordinates (0-1, origin top left)
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Parts of the photo a look may change; everything outside them is kept from the original
+export type EditRegion = 'hair' | 'facialHair';
+
+// Local comparison of a generated image with the uploaded photo (services/identityCheck)
+export interface IdentityCheck {
+  // Luminance correlation of the eye/nose band, 1 = same structure
+  faceSimilarity: number;
+  // Mean colour difference of the background strips, 0 = unchanged
+  backgroundChange: number;
+  passed: boolean;
+  issues: string[];
+}
+
+// What a refinement builds on: the untouched photo, the look it started from and the edits already applied
+export interface RefinementContext {
+  originalBase64: string;
+  lookDescription: string;
+  previousInstructions: string[];
+}
+
+// One follow-up edit in the refinement panel's undo stack
+export interface RefinementStep {
+  id: string;
+  instruction: string;
+  imageUrl: string;
+  identity?: IdentityCheck | null;
+}
+
+// One attempt at a look in the variation strip under the before/after slider
+export interface PreviewVariation {
+  // Generation queue key; the first variation uses the card's own key so "Visualize all" fills it
+  key: string;
+  // Unset for the first variation, which keeps the model's default sampling
+  seed?: number;
+  imageUrl?: string;
+  identity?: IdentityCheck | null;
+}
+
+// Look carried in a share link (services/shareLink); rendered read-only, no photo of the sender beyond the optional preview
+export interface SharedLook {
+  combination: StyleCombination;
+  faceShape?: string;
+  faceAnalysis?: string;
+  groomingTips?: string[];
+  hairSpec?: CuttingSpec;
+  beardSpec?: CuttingSpec;
+  // Small JPEG data URL of the generated look
+  previewImage?: string;
+}